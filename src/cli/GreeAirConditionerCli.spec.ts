@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {Crypto} from '../util/crypto';
+import {FakeSocket} from '../test/FakeSocket';
+import {MockLogger} from '../test/homebridge';
+import {GreeAirConditionerCli} from './GreeAirConditionerCli';
+
+describe('GreeAirConditionerCli', () => {
+
+    const crypto: Crypto = new Crypto();
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    describe('arguments', () => {
+
+        it('parses the command, its arguments and the options', () => {
+            assert.deepStrictEqual(
+                GreeAirConditionerCli.parseArguments(['set', '--json', '192.168.1.10', 'mode=cool', '--port', '7001']),
+                {
+                    command: 'set',
+                    args: ['192.168.1.10', 'mode=cool'],
+                    options: {
+                        json: true,
+                        debug: false,
+                        address: '255.255.255.255',
+                        port: 7001,
+                        timeout: 3000,
+                        apAddress: '192.168.1.1',
+                        wait: 120000,
+                    },
+                },
+            );
+            assert.throws(() => GreeAirConditionerCli.parseArguments(['scan', '--timeout']), /Missing value of --timeout/);
+        });
+
+        it('parses the state with the aliases of the commands', () => {
+            assert.deepStrictEqual(
+                GreeAirConditionerCli.parseState(['mode=cool', 'temp=24', 'fan=auto', 'power=true']),
+                {mode: 'cool', targetTemperature: '24', speed: 'auto', power: true},
+            );
+            assert.throws(() => GreeAirConditionerCli.parseState(['cool']), /Expected \{command}=\{value}/);
+        });
+    });
+
+    describe('commands', () => {
+
+        let clock: FakeTimers.InstalledClock;
+        let socket: FakeSocket;
+        let output: string[];
+
+        const defaults: CliOptions = {
+            json: false,
+            debug: false,
+            address: '255.255.255.255',
+            port: 7000,
+            timeout: 3000,
+            apAddress: '192.168.1.1',
+            wait: 10000,
+        };
+
+        const createCli = (options: Partial<CliOptions> = {}): GreeAirConditionerCli => new GreeAirConditionerCli(
+            {...defaults, ...options},
+            new MockLogger().asLogger(),
+            socket.asSocket(),
+            (line: string) => output.push(line),
+        );
+
+        const replyDev = (address?: string): void =>
+            socket.reply(crypto, mac, {t: 'dev', mac, brand: 'gree', model: 'gree', name: 'AC', ver: 'V1.2.1'}, {tcid: '', address});
+
+        const connect = async (): Promise<void> => {
+            replyDev();
+            await clock.tickAsync(3000);
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+            await clock.tickAsync(0);
+        };
+
+        beforeEach(() => {
+            clock = FakeTimers.install();
+            socket = new FakeSocket();
+            output = [];
+        });
+
+        afterEach(() => clock.uninstall());
+
+        it('lists the devices answering the scan request', async () => {
+            const done = createCli().run('scan', []);
+            replyDev();
+            replyDev();
+            await clock.tickAsync(3000);
+            await done;
+
+            assert.deepStrictEqual(socket.sent[0], {message: {t: 'scan'}, port: 7000, address: '255.255.255.255'});
+            assert.deepStrictEqual(output, [
+                'MAC           IP            Model  Firmware  Name  Protocol',
+                'f4911e000001  192.168.1.10  gree   V1.2.1    AC    1',
+            ]);
+        });
+
+        it('sets the state and prints the confirmed values as JSON', async () => {
+            const done = createCli({json: true}).run('set', ['192.168.1.10', 'mode=cool', 'temp=24']);
+            await connect();
+            await clock.tickAsync(100);
+
+            assert.deepStrictEqual(socket.lastPack(crypto, key), {t: 'cmd', opt: ['Mod', 'SetTem'], p: [1, 24]});
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['Mod', 'SetTem'], p: [1, 24], val: [1, 24]}, {key});
+            await done;
+
+            assert.deepStrictEqual(output.map(line => JSON.parse(line)), [{mode: 'cool', targetTemperature: 24}]);
+        });
+
+        it('prints the changes of the status', async () => {
+            createCli().run('watch', ['192.168.1.10']);
+            await connect();
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'Mod'], dat: [1, 1]}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'Mod'], dat: [1, 4]}, {key});
+
+            assert.deepStrictEqual(output.map(line => line.substring(line.indexOf(' ') + 1)), [
+                'device: available',
+                'power: on, mode: cool',
+                'mode: cool -> heat',
+            ]);
+        });
+
+        it('provisions a device in AP mode and waits for it to join the network', async () => {
+            const done = createCli().run('provision', ['Home', 's3cr3t']);
+            replyDev('192.168.1.1');
+            await clock.tickAsync(3000);
+
+            assert.deepStrictEqual(socket.sent[1], {message: {t: 'wlan', psw: 's3cr3t', ssid: 'Home'}, port: 7000, address: '192.168.1.1'});
+            socket.receive({t: 'ret', r: 200}, '192.168.1.1');
+            await clock.tickAsync(3000);
+            replyDev('192.168.1.10');
+            await clock.tickAsync(3000);
+            await done;
+
+            assert.deepStrictEqual(socket.sent.slice(2).map(s => s.address), ['255.255.255.255', '255.255.255.255']);
+            assert.deepStrictEqual(output, [
+                'Sent the Wi-Fi credentials to f4911e000001, waiting for it to join Home',
+                'Device f4911e000001 joined Home at 192.168.1.10',
+            ]);
+        });
+
+        it('fails if the device rejects the Wi-Fi credentials', async () => {
+            const done = assert.rejects(createCli().run('provision', ['Home', 's3cr3t']), /rejected the Wi-Fi credentials/);
+            replyDev('192.168.1.1');
+            await clock.tickAsync(3000);
+            socket.reply(crypto, mac, {t: 'ret', r: 400}, {address: '192.168.1.1'});
+            await done;
+        });
+
+        it('fails if no device answers at the address', async () => {
+            const done = assert.rejects(createCli().run('status', ['192.168.1.20']), /No device answered at 192.168.1.20:7000/);
+            await clock.tickAsync(3000);
+            await done;
+        });
+
+        it('rejects invalid states before connecting', async () => {
+            await assert.rejects(createCli().run('set', ['192.168.1.10', 'mode=warm']), /Invalid value "warm" for mode/);
+            await assert.rejects(createCli().run('set', ['192.168.1.10']), /Nothing to set/);
+            await assert.rejects(createCli().run('reboot', ['192.168.1.10']), /Usage: gree/);
+
+            assert.deepStrictEqual(socket.sent, []);
+        });
+    });
+
+});
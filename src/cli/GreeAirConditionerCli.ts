@@ -0,0 +1,523 @@
+import {RemoteInfo, Socket} from 'dgram';
+import {Logger} from 'homebridge';
+import {Crypto} from '../util/crypto';
+import {Status} from '../util/status';
+import {GreeAirConditionerCommands} from '../gree/GreeAirConditionerCommands';
+import {GreeAirConditionerDevice} from '../gree/GreeAirConditionerDevice';
+
+/**
+ * Command-line tool for scanning, binding and controlling the devices without the Homebridge runtime. It is built on
+ * {@link GreeAirConditionerDevice} and {@link Crypto}, so it speaks to the devices exactly like the plugin does:
+ * - <i>scan</i> lists the devices answering a scan request on {@link CliOptions.address};
+ * - <i>bind {address}</i> binds to a device and prints its key;
+ * - <i>status {address}</i> prints the decoded status of a device;
+ * - <i>set {address} {command}={value}...</i> sets the state of a device, with the names of
+ * {@link GreeAirConditionerCommands} or their {@link aliases} (e.g. <i>set 192.168.1.10 mode=cool temp=24 fan=auto</i>);
+ * - <i>watch {address}</i> prints the changes of the status of a device until interrupted;
+ * - <i>provision {ssid} {password}</i> sends the Wi-Fi credentials to a factory-reset device in AP mode, and waits for
+ * it to join the network (see {@link provision}).
+ * <br>
+ * With {@link CliOptions.json}, every command prints JSON instead of tables (one document per line for <i>watch</i>).
+ */
+export class GreeAirConditionerCli {
+
+    /**
+     * Short names accepted by <i>set</i>, besides the names of {@link GreeAirConditionerCommands}.
+     */
+    public static readonly aliases: Record<string, string> = {
+        //@formatter:off
+        temp:  'targetTemperature',
+        fan:   'speed',
+        swing: 'swingUpDown',
+        //@formatter:on
+    };
+
+    /**
+     * Options which are flags: they take no value.
+     *
+     * @private
+     */
+    private static readonly flags: string[] = ['json', 'debug'];
+
+    private readonly crypto: Crypto = new Crypto();
+    /**
+     * Devices which answered the last scan request (see {@link discover}).
+     *
+     * @private
+     */
+    private readonly discovered: DeviceContext[] = [];
+    /**
+     * The device the command is run against, once connected (see {@link connect}).
+     *
+     * @private
+     */
+    private device: GreeAirConditionerDevice | undefined;
+    /**
+     * Called with the reply to the {@link WlanMessage} while it is awaited (see {@link provision}).
+     *
+     * @private
+     */
+    private wlanListener: ((reply: WlanReply) => void) | undefined;
+
+
+    /**
+     * @param options Options of the command.
+     * @param logger Logger to be used.
+     * @param socket Bound UDP socket used for talking to the devices.
+     * @param write Writes a line of output.
+     */
+    constructor(private readonly options: CliOptions,
+                private readonly logger: Logger,
+                private readonly socket: Socket,
+                private readonly write: (line: string) => void) {
+        this.socket.on('message', this.handleMessage.bind(this));
+    }
+
+
+    /**
+     * Parses the command line: the options start with <i>--</i>, everything else is the command and its arguments.
+     *
+     * @param argv The arguments of the command line, without the executable and the script.
+     * @returns The command, its arguments and the options.
+     * @throws Error if an option has no value.
+     */
+    public static parseArguments(argv: string[]): { command: string | undefined; args: string[]; options: CliOptions } {
+        const positional: string[] = [];
+        const values: Record<string, string> = {};
+
+        for (let i = 0; i < argv.length; i++) {
+            if (!argv[i].startsWith('--')) {
+                positional.push(argv[i]);
+                continue;
+            }
+
+            const name: string = argv[i].substring(2);
+
+            if (GreeAirConditionerCli.flags.includes(name)) {
+                values[name] = 'true';
+            } else if (argv[i + 1] === undefined || argv[i + 1].startsWith('--')) {
+                throw new Error(`Missing value of --${name}`);
+            } else {
+                values[name] = argv[++i];
+            }
+        }
+
+        //@formatter:off
+        return {
+            command: positional[0],
+            args:    positional.slice(1),
+            options: {
+                json:    values['json'] === 'true',
+                debug:   values['debug'] === 'true',
+                address:   values['address'] || '255.255.255.255',
+                port:      Number(values['port'] || 7000),
+                timeout:   Number(values['timeout'] || 3000),
+                apAddress: values['ap-address'] || '192.168.1.1',
+                wait:      Number(values['wait'] || 120000),
+            },
+        };
+        //@formatter:on
+    }
+
+    /**
+     * Parses the <i>{command}={value}</i> arguments of <i>set</i>. The names can be {@link aliases}, and the values
+     * <i>true</i> and <i>false</i> are taken as booleans; everything else is validated by {@link Status.encode}.
+     *
+     * @param assignments The arguments.
+     * @returns The state, with the names of {@link GreeAirConditionerCommands}.
+     * @throws Error if an argument is not an assignment.
+     */
+    public static parseState(assignments: string[]): Record<string, unknown> {
+        const state: Record<string, unknown> = {};
+
+        assignments.forEach((assignment: string) => {
+            const separator: number = assignment.indexOf('=');
+
+            if (separator <= 0) {
+                throw new Error(`Expected {command}={value}, got ${assignment}`);
+            }
+
+            const name: string = assignment.substring(0, separator);
+            const value: string = assignment.substring(separator + 1);
+
+            if (value === 'true' || value === 'false') {
+                state[GreeAirConditionerCli.aliases[name] || name] = value === 'true';
+            } else {
+                state[GreeAirConditionerCli.aliases[name] || name] = value;
+            }
+        });
+        return state;
+    }
+
+    /**
+     * Runs a command. The commands other than <i>watch</i> complete once their output is written; <i>watch</i> runs
+     * until the process is interrupted.
+     *
+     * @param command The command.
+     * @param args The arguments of the command.
+     * @returns A promise resolved once the command completes, or rejected with the reason for which it failed.
+     */
+    public async run(command: string | undefined, args: string[]): Promise<void> {
+        this.logger.debug('run() --- Called with parameters of interests: %s, %j', command, args);
+
+        if (command === 'scan') {
+            return this.scan();
+        }
+        if (command === 'provision') {
+            if (args.length !== 2) {
+                throw new Error(GreeAirConditionerCli.usage());
+            }
+            return this.provision(args[0], args[1]);
+        }
+        if (!['bind', 'status', 'set', 'watch'].includes(command || '') || args.length === 0) {
+            throw new Error(GreeAirConditionerCli.usage());
+        }
+
+        const state: Partial<DeviceStatus> = command === 'set' ? Status.encode(GreeAirConditionerCli.parseState(args.slice(1))) : {};
+
+        if (command === 'set' && Object.keys(state).length === 0) {
+            throw new Error('Nothing to set');
+        }
+
+        const device: GreeAirConditionerDevice = await this.connect(args[0]);
+
+        switch (command) {
+            case 'bind': return this.bind(device);
+            case 'status': return this.status(device);
+            case 'set': return this.set(device, state);
+            default: return this.watch(device);
+        }
+    }
+
+
+    /**
+     * Prints the devices which answer a scan request within {@link CliOptions.timeout} milliseconds.
+     *
+     * @private
+     */
+    private async scan(): Promise<void> {
+        const contexts: DeviceContext[] = await this.discover(this.options.address);
+
+        if (this.options.json) {
+            this.write(JSON.stringify(contexts));
+            return;
+        }
+        this.table([
+            ['MAC', 'IP', 'Model', 'Firmware', 'Name', 'Protocol'],
+            ...contexts.map(c => [c.mac, c.address, c.model, c.version, c.name, `${c.protocol}`]),
+        ]);
+    }
+
+    /**
+     * Prints the device and the key it was bound with.
+     *
+     * @private
+     */
+    private bind(device: GreeAirConditionerDevice): void {
+        const result = {...device.getDeviceContext(), key: device.getKey()};
+
+        if (this.options.json) {
+            this.write(JSON.stringify(result));
+            return;
+        }
+        this.write(`Bound to ${result.mac} (${result.address}, protocol ${result.protocol}) with key ${result.key}`);
+    }
+
+    /**
+     * Requests the status of a device and prints every column, decoded by {@link Status.decode}.
+     *
+     * @private
+     */
+    private async status(device: GreeAirConditionerDevice): Promise<void> {
+        const status: DeviceStatus = await GreeAirConditionerCli.withTimeout(
+            device.refreshStatus(), this.options.timeout, `Device ${device.getDeviceContext().mac} did not send its status`);
+        const decoded: Record<string, string | number> = Status.decode(status);
+
+        if (this.options.json) {
+            this.write(JSON.stringify(decoded));
+            return;
+        }
+        this.table([
+            ['Command', 'Column', 'Value', 'Raw'],
+            ...Object.keys(GreeAirConditionerCommands).map((name: string) => {
+                const code: string = GreeAirConditionerCommands[name].code;
+
+                return [name, code, `${decoded[name] ?? '-'}`, `${status[code] ?? '-'}`];
+            }),
+        ]);
+    }
+
+    /**
+     * Sets the state of a device, waits for the device to confirm it and prints the confirmed values.
+     *
+     * @private
+     */
+    private async set(device: GreeAirConditionerDevice, state: Partial<DeviceStatus>): Promise<void> {
+        const confirmed: Record<string, string | number> = Status.decode(await device.setState(state));
+
+        if (this.options.json) {
+            this.write(JSON.stringify(confirmed));
+            return;
+        }
+        this.table([['Command', 'Value'], ...Object.keys(confirmed).map(name => [name, `${confirmed[name]}`])]);
+    }
+
+    /**
+     * Prints the status of a device, and then every change of its status and availability, with the time of the
+     * change. The device is refreshed every second.
+     *
+     * @private
+     */
+    private watch(device: GreeAirConditionerDevice): Promise<void> {
+        device.setContinuousRefresh(true);
+        device
+            .on('statusChanged', (diff: StatusDiff) => {
+                const decode = (side: 'old' | 'new'): Record<string, string | number> =>
+                    Status.decode(Object.keys(diff).reduce((status, col) => ({...status, [col]: diff[col][side]}), {}));
+                const before: Record<string, string | number> = decode('old');
+                const after: Record<string, string | number> = decode('new');
+
+                this.writeChange(Object.keys(after).reduce((changes, name) => ({
+                    ...changes,
+                    [name]: this.options.json
+                        ? {old: before[name], new: after[name]}
+                        : (before[name] === undefined ? `${after[name]}` : `${before[name]} -> ${after[name]}`),
+                }), {}));
+            })
+            .on('availabilityChanged', (available: boolean) =>
+                this.writeChange(this.options.json ? {available} : {device: available ? 'available' : 'unavailable'}));
+
+        return new Promise(() => undefined);
+    }
+
+    /**
+     * Writes a change printed by <i>watch</i>, with the current time.
+     *
+     * @private
+     */
+    private writeChange(changes: Record<string, unknown>): void {
+        const time: string = new Date().toISOString();
+
+        this.write(this.options.json
+            ? JSON.stringify({time, ...changes})
+            : `${time} ${Object.keys(changes).map(name => `${name}: ${changes[name]}`).join(', ')}`);
+    }
+
+    /**
+     * Provisions a factory-reset device, which runs its own Wi-Fi network (AP mode) and answers at
+     * {@link CliOptions.apAddress}:
+     * 1. the device is found with a unicast scan request, for learning its MAC;
+     * 2. the Wi-Fi credentials are sent in clear as a {@link WlanMessage}, and the device must reply with <i>r</i> set
+     * to 200 (either in clear or as a pack message encrypted with the generic key);
+     * 3. the device restarts and joins the network; it is scanned for on {@link CliOptions.address} until it answers,
+     * for at most {@link CliOptions.wait} milliseconds. Meanwhile, the machine running the tool must switch back to the
+     * same network.
+     *
+     * @param ssid The SSID of the network.
+     * @param password The password of the network.
+     * @private
+     */
+    private async provision(ssid: string, password: string): Promise<void> {
+        const apAddress: string = this.options.apAddress;
+        const deviceContext: DeviceContext | undefined = (await this.discover(apAddress)).find(c => c.address === apAddress);
+
+        if (deviceContext === undefined) {
+            throw new Error(`No device answered at ${apAddress}:${this.options.port}, connect to the Wi-Fi network of the device first`);
+        }
+
+        const wlanMessage: WlanMessage = {t: 'wlan', psw: password, ssid};
+        const reply: WlanReply = await GreeAirConditionerCli.withTimeout(
+            new Promise<WlanReply>(resolve => {
+                this.wlanListener = resolve;
+                this.socket.send(JSON.stringify(wlanMessage), this.options.port, apAddress);
+            }),
+            this.options.timeout,
+            `Device ${deviceContext.mac} did not reply to the Wi-Fi credentials`,
+        ).finally(() => this.wlanListener = undefined);
+
+        if (reply?.r !== 200) {
+            throw new Error(`Device ${deviceContext.mac} rejected the Wi-Fi credentials: ${JSON.stringify(reply)}`);
+        }
+        if (!this.options.json) {
+            this.write(`Sent the Wi-Fi credentials to ${deviceContext.mac}, waiting for it to join ${ssid}`);
+        }
+
+        const joined: DeviceContext = await this.waitForDevice(deviceContext.mac);
+
+        this.write(this.options.json ? JSON.stringify(joined) : `Device ${joined.mac} joined ${ssid} at ${joined.address}`);
+    }
+
+    /**
+     * Scans for a device on {@link CliOptions.address} until it answers, for at most {@link CliOptions.wait}
+     * milliseconds.
+     *
+     * @param mac The MAC of the device.
+     * @returns A promise resolved with the device once it answers.
+     * @private
+     */
+    private async waitForDevice(mac: string): Promise<DeviceContext> {
+        const deadline: number = Date.now() + this.options.wait;
+
+        while (Date.now() < deadline) {
+            const deviceContext: DeviceContext | undefined = (await this.discover(this.options.address)).find(c => c.mac === mac);
+
+            if (deviceContext) {
+                return deviceContext;
+            }
+        }
+        throw new Error(`Device ${mac} did not answer on ${this.options.address} within ${this.options.wait} ms`);
+    }
+
+    /**
+     * Finds the device at an address with a unicast scan request, and binds to it.
+     *
+     * @param address The address of the device.
+     * @returns A promise resolved with the bound device.
+     * @private
+     */
+    private async connect(address: string): Promise<GreeAirConditionerDevice> {
+        const deviceContext: DeviceContext | undefined = (await this.discover(address)).find(c => c.address === address);
+
+        if (deviceContext === undefined) {
+            throw new Error(`No device answered at ${address}:${this.options.port}`);
+        }
+        deviceContext.port = this.options.port;
+
+        //@formatter:off
+        this.device = new GreeAirConditionerDevice({
+            port:                  this.options.port,
+            scanPort:              this.options.port,
+            scanAddress:           address,
+            scanInterval:          1000,
+            scanMaxRetries:        0,
+            refreshInterval:       1000,
+            rediscoveryInterval:   undefined,
+            dehumidifier:          undefined,
+            fan:                   undefined,
+            verticalSwingDefaults: undefined,
+            restApi:               undefined,
+            mqtt:                  undefined,
+            debug:                 this.options.debug,
+            devices:               undefined,
+        }, this.logger, this.crypto, this.socket, deviceContext);
+        //@formatter:on
+
+        await GreeAirConditionerCli.withTimeout(
+            this.device.waitUntilBound(), this.options.timeout, `Device ${deviceContext.mac} did not bind`);
+        return this.device;
+    }
+
+    /**
+     * Sends a scan request and collects the devices which answer it within {@link CliOptions.timeout} milliseconds.
+     *
+     * @param address The address the request is sent to, either a broadcast address or the address of a device.
+     * @returns A promise resolved with the devices which answered.
+     * @private
+     */
+    private discover(address: string): Promise<DeviceContext[]> {
+        this.discovered.length = 0;
+
+        return new Promise(resolve => {
+            setTimeout(() => resolve([...this.discovered]), this.options.timeout);
+            this.socket.send(JSON.stringify({t: 'scan'}), this.options.port, address);
+        });
+    }
+
+    /**
+     * Routes a datagram to the {@link device}, to the discovery (<i>dev</i> responses) or to the {@link wlanListener}
+     * (any other datagram in clear or encrypted with the generic key). Datagrams which cannot be handled are logged and
+     * dropped.
+     *
+     * @private
+     */
+    private handleMessage(buffer: Buffer, remoteInfo: RemoteInfo): void {
+        this.logger.debug('handleMessage() --- Called with parameters of interests: %s, %j', buffer, remoteInfo);
+
+        try {
+            const message: PackMessage = JSON.parse(buffer.toString());
+
+            if (message.t !== 'pack') {
+                this.wlanListener?.(message);
+            } else if (this.device && message.cid === this.device.getDeviceContext().mac) {
+                this.device.handleResponse(message);
+            } else if (message.i === 1) {
+                const pack: Pack = this.crypto.decryptPack(message);
+
+                if (pack.t === 'dev') {
+                    GreeAirConditionerDevice.handleDevResponse(
+                        this.logger, this.crypto, message, remoteInfo, this.addDiscovered.bind(this));
+                } else {
+                    this.wlanListener?.(pack);
+                }
+            }
+        } catch (e) {
+            this.logger.debug('handleMessage() --- Dropped invalid message from %s:%d (%s)',
+                remoteInfo.address, remoteInfo.port, (<Error>e).message);
+        }
+    }
+
+    /**
+     * Adds a device which answered the scan request to the {@link discovered} ones, unless it already answered.
+     *
+     * @private
+     */
+    private addDiscovered(deviceContext: DeviceContext): void {
+        if (!this.discovered.some(c => c.mac === deviceContext.mac)) {
+            this.discovered.push(deviceContext);
+        }
+    }
+
+    /**
+     * Writes rows as a table, with the columns padded to the same width.
+     *
+     * @private
+     */
+    private table(rows: string[][]): void {
+        const widths: number[] = rows[0].map((header: string, i: number) => Math.max(...rows.map(row => row[i].length)));
+
+        rows.forEach(row => this.write(row.map((cell: string, i: number) => cell.padEnd(widths[i])).join('  ').trimEnd()));
+    }
+
+    /**
+     * Rejects a promise which is not settled within a timeout.
+     *
+     * @private
+     */
+    private static withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const timer: NodeJS.Timeout = setTimeout(() => reject(new Error(message)), timeout);
+
+            promise
+                .then(resolve, reject)
+                .finally(() => clearTimeout(timer));
+        });
+    }
+
+    /**
+     * @returns The usage of the tool.
+     * @private
+     */
+    private static usage(): string {
+        return [
+            'Usage: gree <command> [arguments] [options]',
+            '',
+            'Commands:',
+            '  scan                                   Lists the devices answering a scan request',
+            '  bind <address>                         Binds to a device and prints its key',
+            '  status <address>                       Prints the status of a device',
+            '  set <address> <command>=<value>...     Sets the state of a device (e.g. mode=cool temp=24 fan=auto)',
+            '  watch <address>                        Prints the changes of the status of a device',
+            '  provision <ssid> <password>            Sends the Wi-Fi credentials to a device in AP mode',
+            '',
+            'Options:',
+            '  --json                                 Prints JSON instead of tables',
+            '  --address <address>                    Address of the scan request (default 255.255.255.255)',
+            '  --port <port>                          Port of the devices (default 7000)',
+            '  --timeout <milliseconds>               Time to wait for the devices (default 3000)',
+            '  --ap-address <address>                 Address of a device in AP mode (default 192.168.1.1)',
+            '  --wait <milliseconds>                  Time to wait for a provisioned device to join (default 120000)',
+            '  --debug                                Prints the debug messages',
+        ].join('\n');
+    }
+
+}
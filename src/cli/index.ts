@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+import * as dgram from 'dgram';
+import {Socket} from 'dgram';
+import {ConsoleLogger} from '../util/logger';
+import {GreeAirConditionerCli} from './GreeAirConditionerCli';
+
+/**
+ * Runs the {@link GreeAirConditionerCli} from the command line, e.g.:
+ * ```
+ * gree scan --address 192.168.1.255
+ * gree set 192.168.1.10 mode=cool temp=24 fan=auto --json
+ * ```
+ * The process exits once the command completes (with status 1 if it fails), or on <i>SIGINT</i> for <i>watch</i>.
+ */
+let parsed: ReturnType<typeof GreeAirConditionerCli.parseArguments>;
+try {
+    parsed = GreeAirConditionerCli.parseArguments(process.argv.slice(2));
+} catch (e) {
+    process.stderr.write(`${(<Error>e).message}\n`);
+    process.exit(1);
+}
+
+const logger: ConsoleLogger = new ConsoleLogger('gree', parsed.options.debug);
+const socket: Socket = dgram.createSocket('udp4');
+
+socket.on('error', (err: Error) => logger.error(err.message));
+socket.bind(() => {
+    socket.setBroadcast(true);
+
+    new GreeAirConditionerCli(parsed.options, logger, socket, (line: string) => process.stdout.write(`${line}\n`))
+        .run(parsed.command, parsed.args)
+        .then(() => process.exit(0))
+        .catch((e: Error) => {
+            process.stderr.write(`${e.message}\n`);
+            process.exit(1);
+        });
+});
+
+process.on('SIGINT', () => process.exit(0));
@@ -0,0 +1,833 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {HapStatusError} from 'homebridge';
+import {FakeSocket} from '../test/FakeSocket';
+import {createConfig, createPlatform, hap, MockApi, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerAccessory} from './GreeAirConditionerAccessory';
+import {GreeAirConditionerPlatform} from './GreeAirConditionerPlatform';
+
+describe('GreeAirConditionerAccessory', () => {
+
+    const Characteristic = hap.Characteristic;
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    //@formatter:off
+    const defaultStatus: Partial<DeviceStatus> = {
+        Pow: 1, Mod: 1, SetTem: 24, TemRec: 0, TemSen: 66, TemUn: 0, WdSpd: 0, SwingLfRig: 0, SwUpDn: 0,
+        Blo: 0, Health: 0, Lig: 1, SwhSlp: 0, Quiet: 0, Tur: 0,
+    };
+    //@formatter:on
+
+    const devices: DeviceConfig[] = [<DeviceConfig>{mac, address: '192.168.1.10'}];
+
+    let clock: FakeTimers.InstalledClock;
+    let socket: FakeSocket;
+    let platform: GreeAirConditionerPlatform;
+    let accessory: GreeAirConditionerAccessory;
+
+    const sendStatus = (status: Partial<DeviceStatus>): void => {
+        const cols: string[] = Object.keys(status);
+
+        socket.reply(platform.crypto, mac, {t: 'dat', r: 200, mac, cols, dat: cols.map(col => status[col])}, {key});
+    };
+
+    const launch = (overrides: Partial<Config> = {}): void => {
+        const api: MockApi = new MockApi();
+
+        socket = new FakeSocket();
+        platform = createPlatform(createConfig({devices, ...overrides}), api, new MockLogger(), socket);
+        api.emit('didFinishLaunching');
+        accessory = platform['greeAcDevices'][hap.uuid.generate(mac)];
+    };
+
+    const setup = (status: Partial<DeviceStatus> = {}, overrides: Partial<Config> = {}): void => {
+        launch(overrides);
+
+        socket.reply(platform.crypto, mac, {t: 'bindok', r: 200, mac, key});
+        sendStatus({...defaultStatus, ...status});
+    };
+
+    /**
+     * Ends the coalescing window of the commands and returns the last request sent, other than the status requests, if
+     * it is a cmd request. The cmd request is acknowledged, so the next commands are sent right away.
+     */
+    const lastCommand = (): CmdPack | undefined => {
+        clock.tick(100);
+
+        const pack = socket.sent
+            .filter(s => s.message.t === 'pack' && s.message.i === 0)
+            .map(s => platform.crypto.decryptPack(s.message, key))
+            .filter(p => p.t !== 'status')
+            .pop();
+
+        if (pack === undefined || pack.t !== 'cmd') {
+            return undefined;
+        }
+        socket.reply(platform.crypto, mac, {t: 'res', r: 200, mac, opt: pack.opt, p: pack.p, val: pack.p}, {key});
+        return pack;
+    };
+
+    const commandOf = (): Record<string, number> | undefined => {
+        const pack = lastCommand();
+
+        return pack && pack.opt.reduce((commands, opt, i) => ({...commands, [opt]: pack.p[i]}), {});
+    };
+
+    beforeEach(() => {
+        clock = FakeTimers.install();
+        socket = new FakeSocket();
+    });
+
+    afterEach(() => clock.uninstall());
+
+    describe('availability', () => {
+
+        it('fails with SERVICE_COMMUNICATION_FAILURE while the device is unavailable', () => {
+            launch();
+
+            assert.throws(
+                () => accessory.handleActiveGet(),
+                (e: HapStatusError) => e.hapStatus === hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+            );
+        });
+    });
+
+    describe('Active', () => {
+
+        it('is active when the device is on in auto, cool or heat mode', () => {
+            [0, 1, 4].forEach(Mod => {
+                setup({Pow: 1, Mod: <Mod>Mod});
+                assert.strictEqual(accessory.handleActiveGet(), Characteristic.Active.ACTIVE);
+            });
+        });
+
+        it('is inactive when the device is off, or in dry or fan mode', () => {
+            setup({Pow: 0});
+            assert.strictEqual(accessory.handleActiveGet(), Characteristic.Active.INACTIVE);
+            setup({Pow: 1, Mod: 2});
+            assert.strictEqual(accessory.handleActiveGet(), Characteristic.Active.INACTIVE);
+            setup({Pow: 1, Mod: 3});
+            assert.strictEqual(accessory.handleActiveGet(), Characteristic.Active.INACTIVE);
+        });
+
+        it('turns the device on and off', () => {
+            setup({Pow: 0});
+            accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 1});
+
+            setup({Pow: 1});
+            accessory.handleActiveSet(Characteristic.Active.INACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 0});
+        });
+
+        it('does not send a command when the value does not change', () => {
+            setup({Pow: 1});
+            accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            assert.strictEqual(lastCommand(), undefined);
+        });
+    });
+
+    describe('TargetHeaterCoolerState', () => {
+
+        it('maps the mode to the target state', () => {
+            setup({Mod: 0});
+            assert.strictEqual(accessory.handleTargetHeaterCoolerStateGet(), Characteristic.TargetHeaterCoolerState.AUTO);
+            setup({Mod: 1});
+            assert.strictEqual(accessory.handleTargetHeaterCoolerStateGet(), Characteristic.TargetHeaterCoolerState.COOL);
+            setup({Mod: 4});
+            assert.strictEqual(accessory.handleTargetHeaterCoolerStateGet(), Characteristic.TargetHeaterCoolerState.HEAT);
+        });
+
+        it('sets the mode along with the predefined vertical swing', () => {
+            setup({Mod: 1, SwUpDn: 0});
+            accessory.handleTargetHeaterCoolerStateSet(Characteristic.TargetHeaterCoolerState.HEAT);
+            assert.deepStrictEqual(commandOf(), {Mod: 4, SwingLfRig: 0, SwUpDn: 6});
+
+            setup({Mod: 4, SwUpDn: 1});
+            accessory.handleTargetHeaterCoolerStateSet(Characteristic.TargetHeaterCoolerState.COOL);
+            assert.deepStrictEqual(commandOf(), {Mod: 1, SwingLfRig: 0, SwUpDn: 11});
+
+            setup({Mod: 4, SwUpDn: 1});
+            accessory.handleTargetHeaterCoolerStateSet(Characteristic.TargetHeaterCoolerState.AUTO);
+            assert.deepStrictEqual(commandOf(), {Mod: 0, SwingLfRig: 0, SwUpDn: 0});
+        });
+    });
+
+    describe('CurrentHeaterCoolerState', () => {
+
+        it('is cooling when the target temperature is lower than the current one in cool mode', () => {
+            setup({Mod: 1, SetTem: 22, TemSen: 65});
+            assert.strictEqual(accessory.handleCurrentHeaterCoolerStateGet(), Characteristic.CurrentHeaterCoolerState.COOLING);
+        });
+
+        it('is heating when the target temperature is greater than the current one in heat mode', () => {
+            setup({Mod: 4, SetTem: 28, TemSen: 65});
+            assert.strictEqual(accessory.handleCurrentHeaterCoolerStateGet(), Characteristic.CurrentHeaterCoolerState.HEATING);
+        });
+
+        it('is idle otherwise', () => {
+            setup({Mod: 4, SetTem: 22, TemSen: 65});
+            assert.strictEqual(accessory.handleCurrentHeaterCoolerStateGet(), Characteristic.CurrentHeaterCoolerState.IDLE);
+        });
+
+        it('is inactive when the device is off or in dry mode', () => {
+            setup({Pow: 0});
+            assert.strictEqual(accessory.handleCurrentHeaterCoolerStateGet(), Characteristic.CurrentHeaterCoolerState.INACTIVE);
+            setup({Pow: 1, Mod: 2});
+            assert.strictEqual(accessory.handleCurrentHeaterCoolerStateGet(), Characteristic.CurrentHeaterCoolerState.INACTIVE);
+        });
+    });
+
+    describe('dehumidifier', () => {
+
+        const dehumidifierOf = () => accessory['dehumidifierService']!;
+
+        it('is not exposed unless enabled', () => {
+            setup();
+            assert.strictEqual(accessory['dehumidifierService'], undefined);
+        });
+
+        it('is enabled or disabled per device, falling back to the global setting', () => {
+            const devicesWith = (features: Partial<FeaturesConfig>) => [<DeviceConfig>{mac, address: '192.168.1.10', features}];
+
+            setup({}, {devices: devicesWith({dehumidifier: true})});
+            assert.notStrictEqual(accessory['dehumidifierService'], undefined);
+            setup({}, {dehumidifier: true, devices: devicesWith({dehumidifier: false})});
+            assert.strictEqual(accessory['dehumidifierService'], undefined);
+            setup({}, {dehumidifier: true, devices: devicesWith({})});
+            assert.notStrictEqual(accessory['dehumidifierService'], undefined);
+        });
+
+        it('is active only when the device is on in dry mode', () => {
+            setup({Pow: 1, Mod: 2}, {dehumidifier: true});
+            assert.strictEqual(accessory.handleDehumidifierActiveGet(), Characteristic.Active.ACTIVE);
+            assert.strictEqual(
+                accessory.handleCurrentHumidifierDehumidifierStateGet(),
+                Characteristic.CurrentHumidifierDehumidifierState.DEHUMIDIFYING,
+            );
+            assert.strictEqual(dehumidifierOf().getCharacteristic(Characteristic.Active).value, Characteristic.Active.ACTIVE);
+            assert.strictEqual(
+                accessory['heaterCoolerService'].getCharacteristic(Characteristic.Active).value,
+                Characteristic.Active.INACTIVE,
+            );
+
+            setup({Pow: 1, Mod: 1}, {dehumidifier: true});
+            assert.strictEqual(accessory.handleDehumidifierActiveGet(), Characteristic.Active.INACTIVE);
+            assert.strictEqual(
+                accessory.handleCurrentHumidifierDehumidifierStateGet(),
+                Characteristic.CurrentHumidifierDehumidifierState.INACTIVE,
+            );
+        });
+
+        it('switches the device to dry mode and reports the heater cooler as inactive', () => {
+            setup({Pow: 1, Mod: 1}, {dehumidifier: true});
+            accessory.handleDehumidifierActiveSet(Characteristic.Active.ACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 1, Mod: 2});
+            assert.strictEqual(
+                accessory['heaterCoolerService'].getCharacteristic(Characteristic.Active).value,
+                Characteristic.Active.INACTIVE,
+            );
+
+            setup({Pow: 1, Mod: 2}, {dehumidifier: true});
+            accessory.handleDehumidifierActiveSet(Characteristic.Active.INACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 0});
+        });
+
+        it('leaves dry mode for the last target state when the heater cooler is activated', () => {
+            setup({Pow: 1, Mod: 4}, {dehumidifier: true});
+            sendStatus({Mod: 2});
+            assert.strictEqual(accessory.handleTargetHeaterCoolerStateGet(), Characteristic.TargetHeaterCoolerState.HEAT);
+
+            accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 1, Mod: 4});
+            assert.strictEqual(dehumidifierOf().getCharacteristic(Characteristic.Active).value, Characteristic.Active.INACTIVE);
+        });
+    });
+
+    describe('fan', () => {
+
+        const fanOf = () => accessory['fanService']!;
+
+        it('is enabled or disabled per device, falling back to the global setting', () => {
+            const devicesWith = (features: Partial<FeaturesConfig>) => [<DeviceConfig>{mac, address: '192.168.1.10', features}];
+
+            setup({}, {devices: devicesWith({fan: true})});
+            assert.notStrictEqual(accessory['fanService'], undefined);
+            setup({}, {fan: true, devices: devicesWith({fan: false})});
+            assert.strictEqual(accessory['fanService'], undefined);
+            setup({}, {fan: true, devices: devicesWith({})});
+            assert.notStrictEqual(accessory['fanService'], undefined);
+        });
+
+        it('is active only when the device is on in fan mode', () => {
+            setup({Pow: 1, Mod: 3}, {fan: true});
+            assert.strictEqual(accessory.handleFanActiveGet(), Characteristic.Active.ACTIVE);
+            assert.strictEqual(accessory.handleActiveGet(), Characteristic.Active.INACTIVE);
+
+            setup({Pow: 1, Mod: 1}, {fan: true});
+            assert.strictEqual(accessory.handleFanActiveGet(), Characteristic.Active.INACTIVE);
+        });
+
+        it('switches the device to fan mode and reports the other services as inactive', () => {
+            setup({Pow: 1, Mod: 1}, {fan: true, dehumidifier: true});
+            accessory.handleFanActiveSet(Characteristic.Active.ACTIVE);
+            assert.deepStrictEqual(commandOf(), {Pow: 1, Mod: 3});
+            assert.strictEqual(
+                accessory['heaterCoolerService'].getCharacteristic(Characteristic.Active).value,
+                Characteristic.Active.INACTIVE,
+            );
+            assert.strictEqual(
+                accessory['dehumidifierService']!.getCharacteristic(Characteristic.Active).value,
+                Characteristic.Active.INACTIVE,
+            );
+        });
+
+        it('maps all the wind speeds to discrete rotation speeds', () => {
+            [0, 1, 2, 3, 4, 5].forEach(WdSpd => {
+                setup({Mod: 3, WdSpd: <WdSpd>WdSpd}, {fan: true});
+                assert.strictEqual(accessory.handleFanRotationSpeedGet(), WdSpd + 1);
+                assert.strictEqual(fanOf().getCharacteristic(Characteristic.RotationSpeed).value, WdSpd + 1);
+            });
+
+            setup({Mod: 3, WdSpd: 0}, {fan: true});
+            accessory.handleFanRotationSpeedSet(6);
+            assert.deepStrictEqual(commandOf(), {WdSpd: 5});
+        });
+
+        it('does not set the wind speed when the rotation speed is 0', () => {
+            setup({Mod: 3, WdSpd: 2}, {fan: true});
+            accessory.handleFanRotationSpeedSet(0);
+            assert.strictEqual(lastCommand(), undefined);
+        });
+
+        it('maps the swing mode to the full vertical swing', () => {
+            setup({Mod: 3, SwUpDn: 0}, {fan: true});
+            accessory.handleFanSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0, SwUpDn: 1});
+
+            setup({Mod: 3, SwUpDn: 1}, {fan: true});
+            assert.strictEqual(fanOf().getCharacteristic(Characteristic.SwingMode).value, Characteristic.SwingMode.SWING_ENABLED);
+            accessory.handleFanSwingModeSet(Characteristic.SwingMode.SWING_DISABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0, SwUpDn: 0});
+        });
+    });
+
+    describe('horizontal slats', () => {
+
+        const features = <FeaturesConfig>{horizontalSlats: true};
+        const withSlats = (status: Partial<DeviceStatus>): void =>
+            setup(status, {devices: [<DeviceConfig>{mac, address: '192.168.1.10', features}]});
+
+        it('is not exposed unless enabled', () => {
+            setup();
+            assert.strictEqual(accessory['horizontalSlatsService'], undefined);
+        });
+
+        it('maps the fixed positions to tilt angles', () => {
+            [[2, -90], [3, -45], [4, 0], [5, 45], [6, 90], [0, 0]].forEach(([SwingLfRig, angle]) => {
+                withSlats({SwingLfRig: <SwingLfRig>SwingLfRig});
+                assert.strictEqual(accessory.handleHorizontalTiltAngleGet(), angle);
+                assert.strictEqual(accessory.handleHorizontalSlatStateGet(), Characteristic.CurrentSlatState.FIXED);
+            });
+        });
+
+        it('sets the position closest to the tilt angle', () => {
+            withSlats({SwingLfRig: 4});
+            accessory.handleHorizontalTiltAngleSet(-60);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 3});
+
+            withSlats({SwingLfRig: 4});
+            accessory.handleHorizontalTiltAngleSet(10);
+            assert.strictEqual(lastCommand(), undefined);
+        });
+
+        it('maps the full swing to the swing mode', () => {
+            withSlats({SwingLfRig: 1});
+            assert.strictEqual(accessory.handleHorizontalSwingModeGet(), Characteristic.SwingMode.SWING_ENABLED);
+            assert.strictEqual(accessory.handleHorizontalSlatStateGet(), Characteristic.CurrentSlatState.SWINGING);
+
+            accessory.handleHorizontalSwingModeSet(Characteristic.SwingMode.SWING_DISABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0});
+        });
+
+        it('is not reset by the vertical swing', () => {
+            withSlats({Mod: 1, SwUpDn: 0, SwingLfRig: 2});
+            accessory.handleSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 11});
+        });
+    });
+
+    describe('vertical slats', () => {
+
+        const features = <FeaturesConfig>{verticalSlats: true};
+        const withSlats = (status: Partial<DeviceStatus>): void =>
+            setup(status, {devices: [<DeviceConfig>{mac, address: '192.168.1.10', features}]});
+
+        it('maps the fixed positions and the partial swing ranges to tilt angles', () => {
+            [[2, 90], [4, 0], [6, -90], [7, -90], [9, 0], [11, 90], [1, 0], [0, 0]].forEach(([SwUpDn, angle]) => {
+                withSlats({SwUpDn: <SwUpDn>SwUpDn});
+                assert.strictEqual(accessory.handleVerticalTiltAngleGet(), angle);
+            });
+        });
+
+        it('sets the fixed position closest to the tilt angle when not swinging', () => {
+            withSlats({SwUpDn: 2});
+            accessory.handleVerticalTiltAngleSet(0);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 4});
+        });
+
+        it('sets the partial swing range closest to the tilt angle when swinging', () => {
+            withSlats({SwUpDn: 1});
+            accessory.handleVerticalTiltAngleSet(-45);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 8});
+        });
+
+        it('keeps the tilt angle when the swing mode changes', () => {
+            withSlats({SwUpDn: 4});
+            accessory.handleVerticalSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 9});
+
+            withSlats({SwUpDn: 10});
+            accessory.handleVerticalSwingModeSet(Characteristic.SwingMode.SWING_DISABLED);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 3});
+
+            withSlats({SwUpDn: 0});
+            accessory.handleVerticalSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwUpDn: 1});
+        });
+    });
+
+    describe('outdoor temperature sensor', () => {
+
+        const features = <FeaturesConfig>{outdoorTemperature: true};
+        const withSensor = (status: Partial<DeviceStatus>): void =>
+            setup(status, {devices: [<DeviceConfig>{mac, address: '192.168.1.10', features}]});
+
+        it('subtracts the offset of 40 from the outdoor temperature', () => {
+            withSensor({OutEnvTem: 35});
+            assert.strictEqual(accessory.handleOutdoorTemperatureGet(), -5);
+            assert.strictEqual(
+                accessory['outdoorTemperatureService']!.getCharacteristic(Characteristic.CurrentTemperature).value,
+                -5,
+            );
+        });
+
+        it('is not exposed when the device does not report the outdoor temperature', () => {
+            withSensor({});
+            assert.strictEqual(accessory['outdoorTemperatureService'], undefined);
+            assert.throws(
+                () => accessory.handleOutdoorTemperatureGet(),
+                (e: HapStatusError) => e.hapStatus === hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+            );
+        });
+    });
+
+    describe('CurrentTemperature', () => {
+
+        it('subtracts the offset of 40 from the temperature sensor', () => {
+            setup({TemSen: 63});
+            assert.strictEqual(accessory.handleCurrentTemperatureGet(), 23);
+            setup({TemSen: 35});
+            assert.strictEqual(accessory.handleCurrentTemperatureGet(), -5);
+        });
+    });
+
+    describe('set handlers', () => {
+
+        it('resolve once the device acknowledges the command', async () => {
+            setup({Pow: 0});
+
+            const set = accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            lastCommand();
+
+            await set;
+        });
+
+        it('fail with SERVICE_COMMUNICATION_FAILURE when the device does not acknowledge the command', async () => {
+            setup({Pow: 0});
+
+            const set = accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            clock.tick(100 + 3000);
+
+            await assert.rejects(set, (e: HapStatusError) => e.hapStatus === hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        });
+    });
+
+    describe('optimistic updates', () => {
+
+        const warnings = (): string[] => (<MockLogger><unknown>platform.logger).messages
+            .filter(m => m.level === 'warn')
+            .map(m => m.message);
+
+        it('updates the related characteristics before the device acknowledges the command', () => {
+            setup({Pow: 0, Mod: 1});
+            const service = accessory['heaterCoolerService'];
+
+            accessory.handleActiveSet(Characteristic.Active.ACTIVE).catch(() => undefined);
+            sendStatus({Pow: 0});
+
+            assert.strictEqual(service.getCharacteristic(Characteristic.Active).value, Characteristic.Active.ACTIVE);
+            assert.strictEqual(
+                service.getCharacteristic(Characteristic.CurrentHeaterCoolerState).value,
+                Characteristic.CurrentHeaterCoolerState.COOLING,
+            );
+        });
+
+        it('rolls back when the device does not acknowledge the command', async () => {
+            setup({Pow: 0});
+            const service = accessory['heaterCoolerService'];
+
+            const set = accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            clock.tick(100 + 3000);
+            await assert.rejects(set);
+
+            assert.strictEqual(service.getCharacteristic(Characteristic.Active).value, Characteristic.Active.INACTIVE);
+            assert.ok(warnings().some(w => w.startsWith('Rolled back')));
+        });
+
+        it('rolls back when the status contradicts the confirmed value', async () => {
+            setup({Pow: 0});
+            const service = accessory['heaterCoolerService'];
+
+            const set = accessory.handleActiveSet(Characteristic.Active.ACTIVE);
+            lastCommand();
+            await set;
+            sendStatus({Pow: 0});
+
+            assert.strictEqual(service.getCharacteristic(Characteristic.Active).value, Characteristic.Active.INACTIVE);
+            assert.ok(warnings().some(w => w.startsWith('Device %s (%s) reverted')));
+        });
+    });
+
+    describe('Cooling/HeatingThresholdTemperature', () => {
+
+        it('uses the target temperature', () => {
+            setup({SetTem: 21});
+            assert.strictEqual(accessory.handleThresholdTemperatureGet(), 21);
+        });
+
+        it('sets only the target temperature in Celsius', () => {
+            setup({SetTem: 21, TemUn: 0});
+            accessory.handleThresholdTemperatureSet(25);
+            assert.deepStrictEqual(commandOf(), {SetTem: 25});
+        });
+
+        it('rounds the target temperature to a whole degree in Celsius', () => {
+            setup({SetTem: 21, TemUn: 0});
+            accessory.handleThresholdTemperatureSet(24.6);
+            assert.deepStrictEqual(commandOf(), {SetTem: 25});
+        });
+
+        it('uses the target temperature along with TemRec in Fahrenheit', () => {
+            setup({SetTem: 22, TemRec: 1, TemUn: 1});
+            assert.strictEqual(Math.round(accessory.handleThresholdTemperatureGet() * 9 / 5 + 32), 72);
+
+            setup({SetTem: 22, TemRec: 0, TemUn: 1});
+            assert.strictEqual(Math.round(accessory.handleThresholdTemperatureGet() * 9 / 5 + 32), 71);
+        });
+
+        it('sets the target temperature along with TemRec in Fahrenheit', () => {
+            setup({SetTem: 21, TemRec: 0, TemUn: 1});
+
+            accessory.handleThresholdTemperatureSet(22.2);
+            assert.deepStrictEqual(commandOf(), {SetTem: 22, TemRec: 1});
+
+            accessory.handleThresholdTemperatureSet(25);
+            assert.deepStrictEqual(commandOf(), {SetTem: 25, TemRec: 1});
+        });
+
+        it('does not set the same Fahrenheit degree again', () => {
+            setup({SetTem: 22, TemRec: 1, TemUn: 1});
+            accessory.handleThresholdTemperatureSet(22.3);
+            assert.strictEqual(commandOf(), undefined);
+        });
+
+        it('uses a finer step in Fahrenheit', () => {
+            setup({TemUn: 1});
+            const props = accessory['heaterCoolerService'].getCharacteristic(Characteristic.CoolingThresholdTemperature).props;
+
+            assert.deepStrictEqual([props.minValue, props.maxValue, props.minStep], [16.1, 30, 0.1]);
+        });
+    });
+
+    describe('RotationSpeed', () => {
+
+        it('maps the wind speed to the rotation speed', () => {
+            [0, 1, 2, 3, 4, 5].forEach(WdSpd => {
+                setup({WdSpd: <WdSpd>WdSpd});
+                assert.strictEqual(accessory.handleRotationSpeedGet(), WdSpd * 20);
+            });
+        });
+
+        it('sets the wind speed', () => {
+            setup({WdSpd: 0});
+            accessory.handleRotationSpeedSet(60);
+            assert.deepStrictEqual(commandOf(), {WdSpd: 3});
+        });
+
+        it('does not set the wind speed while quiet or turbo is on', () => {
+            setup({WdSpd: 0, Quiet: 1});
+            accessory.handleRotationSpeedSet(60);
+            assert.strictEqual(lastCommand(), undefined);
+
+            setup({WdSpd: 0, Tur: 1});
+            accessory.handleRotationSpeedSet(60);
+            assert.strictEqual(lastCommand(), undefined);
+        });
+    });
+
+    describe('TemperatureDisplayUnits', () => {
+
+        it('maps the units', () => {
+            setup({TemUn: 0});
+            assert.strictEqual(accessory.handleTemperatureDisplayUnitsGet(), Characteristic.TemperatureDisplayUnits.CELSIUS);
+            setup({TemUn: 1});
+            assert.strictEqual(accessory.handleTemperatureDisplayUnitsGet(), Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+        });
+
+        it('sets the units', () => {
+            setup({TemUn: 0});
+            accessory.handleTemperatureDisplayUnitsSet(Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+            assert.deepStrictEqual(commandOf(), {TemUn: 1});
+        });
+    });
+
+    describe('SwingMode', () => {
+
+        it('is enabled for the swinging vertical positions', () => {
+            [1, 7, 8, 9, 10, 11].forEach(SwUpDn => {
+                setup({SwUpDn: <SwUpDn>SwUpDn});
+                assert.strictEqual(accessory.handleSwingModeGet(), Characteristic.SwingMode.SWING_ENABLED);
+            });
+        });
+
+        it('is disabled for the fixed vertical positions', () => {
+            [0, 2, 3, 4, 5, 6].forEach(SwUpDn => {
+                setup({SwUpDn: <SwUpDn>SwUpDn});
+                assert.strictEqual(accessory.handleSwingModeGet(), Characteristic.SwingMode.SWING_DISABLED);
+            });
+        });
+
+        it('sets the predefined vertical swing of the current mode', () => {
+            setup({Mod: 1, SwUpDn: 0});
+            accessory.handleSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0, SwUpDn: 11});
+
+            setup({Mod: 4, SwUpDn: 7});
+            accessory.handleSwingModeSet(Characteristic.SwingMode.SWING_DISABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0, SwUpDn: 6});
+        });
+
+        it('uses the configured vertical swing defaults', () => {
+            const verticalSwingDefaults = <VerticalSwingDefaultsConfig>{coolSwinging: 9, heatFixed: 4};
+
+            setup({Mod: 1, SwUpDn: 0}, {verticalSwingDefaults});
+            accessory.handleSwingModeSet(Characteristic.SwingMode.SWING_ENABLED);
+            assert.deepStrictEqual(commandOf(), {SwingLfRig: 0, SwUpDn: 9});
+
+            setup({Mod: 1, SwUpDn: 2}, {verticalSwingDefaults});
+            accessory.handleTargetHeaterCoolerStateSet(Characteristic.TargetHeaterCoolerState.HEAT);
+            assert.deepStrictEqual(commandOf(), {Mod: 4, SwingLfRig: 0, SwUpDn: 4});
+        });
+    });
+
+    describe('switches', () => {
+
+        const switches: [string, string, (value: boolean) => void, () => boolean][] = [
+            ['X-Fan', 'Blo', v => accessory.handleXFanSet(v), () => accessory.handleXFanGet()],
+            ['Health', 'Health', v => accessory.handleHealthSet(v), () => accessory.handleHealthGet()],
+            ['Light', 'Lig', v => accessory.handleLightSet(v), () => accessory.handleLightGet()],
+            ['Sleep', 'SwhSlp', v => accessory.handleSleepSet(v), () => accessory.handleSleepGet()],
+            ['Quiet', 'Quiet', v => accessory.handleQuietSet(v), () => accessory.handleQuietGet()],
+            ['Turbo', 'Tur', v => accessory.handleTurboSet(v), () => accessory.handleTurboGet()],
+        ];
+
+        switches.forEach(([name, column, set, get]) => {
+            it(`maps ${name} to ${column}`, () => {
+                setup({[column]: 1});
+                assert.strictEqual(get(), true);
+                setup({[column]: 0});
+                assert.strictEqual(get(), false);
+            });
+
+            it(`turns ${name} on without sending a command when it is already on`, () => {
+                setup({[column]: 0});
+                set(true);
+                assert.strictEqual(commandOf()![column], 1);
+
+                setup({[column]: 1});
+                set(true);
+                assert.strictEqual(lastCommand(), undefined);
+            });
+        });
+
+        it('exposes each feature as its own named switch', () => {
+            setup();
+
+            const services = accessory['accessory'].services.filter(service => service.UUID === hap.Service.Switch.UUID);
+            assert.deepStrictEqual(
+                services.map(service => service.subtype).sort(),
+                ['health', 'light', 'quiet', 'sleep', 'turbo', 'xFan'],
+            );
+            assert.strictEqual(accessory['xFanService']!.getCharacteristic(Characteristic.ConfiguredName).value, 'X-Fan');
+        });
+
+        it('removes the disabled and the unnamed switches from the cached accessory', () => {
+            const api: MockApi = new MockApi();
+            const cachedAccessory = new api.platformAccessory('AC', hap.uuid.generate(mac));
+            cachedAccessory.context.device = {mac, address: '192.168.1.10', brand: 'gree', model: 'gree', name: 'AC', version: ''};
+            cachedAccessory.addService(hap.Service.Switch);
+            cachedAccessory.addService(hap.Service.Switch, 'Light', 'light');
+
+            const features = <FeaturesConfig>{light: false, sleep: false};
+            platform = createPlatform(
+                createConfig({devices: [<DeviceConfig>{mac, address: '192.168.1.10', features}]}),
+                api,
+                new MockLogger(),
+                socket,
+            );
+            platform.configureAccessory(cachedAccessory);
+            api.emit('didFinishLaunching');
+            accessory = platform['greeAcDevices'][hap.uuid.generate(mac)];
+
+            assert.deepStrictEqual(
+                cachedAccessory.services.filter(service => service.UUID === hap.Service.Switch.UUID).map(service => service.subtype),
+                ['xFan', 'health', 'turbo', 'quiet'],
+            );
+            assert.strictEqual(accessory['lightService'], undefined);
+            assert.strictEqual(accessory['sleepService'], undefined);
+        });
+
+        it('sets the sleep mode along with sleep when the device reports it', () => {
+            setup({SwhSlp: 0, SlpMod: 0});
+            accessory.handleSleepSet(true);
+            assert.deepStrictEqual(commandOf(), {SwhSlp: 1, SlpMod: 1});
+        });
+
+        describe('additional columns', () => {
+
+            const features = <FeaturesConfig>{energySaving: true, frostProtection: true, freshAir: true};
+            const withFeatures = (status: Partial<DeviceStatus>): void =>
+                setup(status, {devices: [<DeviceConfig>{mac, address: '192.168.1.10', features}]});
+
+            it('maps energy saving, 8°C heat and fresh air', () => {
+                withFeatures({SvSt: 1, StHt: 0, Air: 1});
+                assert.strictEqual(accessory.handleEnergySavingGet(), true);
+                assert.strictEqual(accessory.handleFrostProtectionGet(), false);
+                assert.strictEqual(accessory.handleFreshAirGet(), true);
+
+                accessory.handleFrostProtectionSet(true);
+                assert.deepStrictEqual(commandOf(), {StHt: 1});
+            });
+
+            it('degrades to an inert switch when the device does not report the column', () => {
+                withFeatures({});
+                assert.strictEqual(accessory.handleEnergySavingGet(), false);
+
+                accessory.handleEnergySavingSet(true);
+                assert.strictEqual(lastCommand(), undefined);
+            });
+
+            it('ignores non-numeric values of unsupported columns', () => {
+                withFeatures({});
+                socket.reply(platform.crypto, mac, {t: 'dat', r: 200, mac, cols: ['Air'], dat: [<number><unknown>'']}, {key});
+                assert.strictEqual(accessory.device.getDeviceStatus().Air, undefined);
+            });
+        });
+
+        it('removes the services and characteristics the device does not support', () => {
+            launch({devices: [<DeviceConfig>{mac, address: '192.168.1.10', features: <FeaturesConfig>{horizontalSlats: true}}]});
+            assert.notStrictEqual(accessory['healthService'], undefined);
+
+            socket.reply(platform.crypto, mac, {t: 'bindok', r: 200, mac, key});
+            const status: Partial<DeviceStatus> = {...defaultStatus};
+            ['Health', 'Quiet', 'SwingLfRig', 'WdSpd'].forEach(col => delete status[col]);
+            sendStatus(status);
+
+            assert.strictEqual(accessory['healthService'], undefined);
+            assert.strictEqual(accessory['quietService'], undefined);
+            assert.strictEqual(accessory['horizontalSlatsService'], undefined);
+            assert.notStrictEqual(accessory['lightService'], undefined);
+            assert.strictEqual(
+                accessory['heaterCoolerService'].characteristics.some(c => c.UUID === Characteristic.RotationSpeed.UUID),
+                false,
+            );
+            assert.deepStrictEqual(accessory['accessory'].context.capabilities, Object.keys(status));
+            assert.deepStrictEqual((<MockApi><unknown>platform.api).updated, [accessory['accessory']]);
+        });
+
+        it('turns turbo off when quiet is turned on', () => {
+            setup({Quiet: 0, Tur: 1});
+            accessory.handleQuietSet(true);
+            assert.deepStrictEqual(commandOf(), {Quiet: 1, Tur: 0});
+        });
+
+        it('turns quiet off when turbo is turned on', () => {
+            setup({Quiet: 1, Tur: 0});
+            accessory.handleTurboSet(true);
+            assert.deepStrictEqual(commandOf(), {Tur: 1, Quiet: 0});
+        });
+
+        it('does not turn turbo on in heat mode', () => {
+            setup({Mod: 4, Tur: 0});
+            accessory.handleTurboSet(true);
+            assert.strictEqual(lastCommand(), undefined);
+        });
+    });
+
+    describe('refresh', () => {
+
+        it('pushes the status to the characteristics on a dat response', () => {
+            setup({Pow: 1, Mod: 4, SetTem: 26, TemSen: 62, WdSpd: 2});
+
+            const service = accessory['heaterCoolerService'];
+            assert.strictEqual(service.getCharacteristic(Characteristic.Active).value, Characteristic.Active.ACTIVE);
+            assert.strictEqual(
+                service.getCharacteristic(Characteristic.TargetHeaterCoolerState).value,
+                Characteristic.TargetHeaterCoolerState.HEAT,
+            );
+            assert.strictEqual(service.getCharacteristic(Characteristic.CurrentTemperature).value, 22);
+            assert.strictEqual(service.getCharacteristic(Characteristic.HeatingThresholdTemperature).value, 26);
+            assert.strictEqual(service.getCharacteristic(Characteristic.RotationSpeed).value, 40);
+        });
+
+        it('updates only the characteristics whose columns changed', () => {
+            setup({Pow: 1, Mod: 4, SetTem: 26, TemSen: 62});
+            const service = accessory['heaterCoolerService'];
+            service.getCharacteristic(Characteristic.CurrentTemperature).updateValue(0);
+
+            sendStatus({Pow: 1, Mod: 4, SetTem: 27, TemSen: 62});
+
+            assert.strictEqual(service.getCharacteristic(Characteristic.HeatingThresholdTemperature).value, 27);
+            assert.strictEqual(service.getCharacteristic(Characteristic.CurrentTemperature).value, 0);
+        });
+
+        it('keeps requesting the status while HomeKit reads it, so the changes made with the remote control show up', () => {
+            setup({Pow: 1, Mod: 1, TemSen: 62});
+            const service = accessory['heaterCoolerService'];
+            const statusRequests = (): number => socket.sent
+                .filter(s => s.message.t === 'pack' && s.message.i === 0)
+                .filter(s => platform.crypto.decryptPack(s.message, key).t === 'status')
+                .length;
+
+            for (let i = 0; i < 30; i++) {
+                const requested = statusRequests();
+                accessory.handleActiveGet();
+                clock.tick(1000);
+                assert.strictEqual(statusRequests(), requested + 1);
+                sendStatus({...defaultStatus, TemSen: 62});
+            }
+            sendStatus({...defaultStatus, Pow: 0, TemSen: 65});
+
+            assert.strictEqual(service.getCharacteristic(Characteristic.Active).value, Characteristic.Active.INACTIVE);
+            assert.strictEqual(service.getCharacteristic(Characteristic.CurrentTemperature).value, 25);
+
+            clock.tick(10000);
+            const requested = statusRequests();
+            clock.tick(10000);
+            assert.strictEqual(statusRequests(), requested);
+        });
+    });
+
+});
@@ -1,6 +1,7 @@
-import {Characteristic, HAPStatus, PlatformAccessory, Service} from 'homebridge';
+import {Characteristic, CharacteristicValue, HAPStatus, PlatformAccessory, Service, WithUUID} from 'homebridge';
 import {GreeAirConditionerCommands as cmd} from './GreeAirConditionerCommands';
 import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+import {Temperature} from '../util/temperature';
 import {GreeAirConditionerPlatform} from './GreeAirConditionerPlatform';
 
 /**
@@ -15,7 +16,7 @@ export class GreeAirConditionerAccessory {
     /**
      * Underlying {@link GreeAirConditionerDevice} object that connects this accessory to the physical device.
      */
-    private readonly device: GreeAirConditionerDevice;
+    public readonly device: GreeAirConditionerDevice;
 
     /**
      * All values for which device's {@link GreeAirConditionerCommands.swingUpDown.value swingUpDown} is considered
@@ -30,16 +31,94 @@ export class GreeAirConditionerAccessory {
         cmd.swingUpDown.value.swingHighest
     ];
 
+    /**
+     * Tilt angles of the horizontal slats for each fixed value of device's
+     * {@link GreeAirConditionerCommands.swingLeftRight.value swingLeftRight}, from left (-90) to right (90).
+     */
+    private readonly horizontalTiltAngles: Record<number, number> = {
+        //@formatter:off
+        [cmd.swingLeftRight.value.left]:        -90,
+        [cmd.swingLeftRight.value.centerLeft]:  -45,
+        [cmd.swingLeftRight.value.center]:        0,
+        [cmd.swingLeftRight.value.centerRight]:  45,
+        [cmd.swingLeftRight.value.right]:        90
+        //@formatter:on
+    };
+
+    /**
+     * Tilt angles of the vertical slats for each fixed value of device's
+     * {@link GreeAirConditionerCommands.swingUpDown.value swingUpDown}, from lowest (-90) to highest (90).
+     */
+    private readonly verticalFixedTiltAngles: Record<number, number> = {
+        //@formatter:off
+        [cmd.swingUpDown.value.fixedLowest]:  -90,
+        [cmd.swingUpDown.value.fixedLower]:   -45,
+        [cmd.swingUpDown.value.fixedMiddle]:    0,
+        [cmd.swingUpDown.value.fixedHigher]:   45,
+        [cmd.swingUpDown.value.fixedHighest]:  90
+        //@formatter:on
+    };
+
+    /**
+     * Tilt angles of the vertical slats for each partial swing range of device's
+     * {@link GreeAirConditionerCommands.swingUpDown.value swingUpDown}, from lowest (-90) to highest (90).
+     */
+    private readonly verticalSwingTiltAngles: Record<number, number> = {
+        //@formatter:off
+        [cmd.swingUpDown.value.swingLowest]:  -90,
+        [cmd.swingUpDown.value.swingLower]:   -45,
+        [cmd.swingUpDown.value.swingMiddle]:    0,
+        [cmd.swingUpDown.value.swingHigher]:   45,
+        [cmd.swingUpDown.value.swingHighest]:  90
+        //@formatter:on
+    };
+
     //@formatter:off
     private heaterCoolerService: Service;
-    private xFanService:         Service;
-    private healthService:       Service;
-    private lightService:        Service;
-    private sleepService:        Service;
-    private quietService:        Service;
-    private turboService:        Service;
+    private xFanService:         Service | undefined;
+    private healthService:       Service | undefined;
+    private lightService:        Service | undefined;
+    private sleepService:        Service | undefined;
+    private quietService:        Service | undefined;
+    private turboService:        Service | undefined;
+
+    private energySavingService:    Service | undefined;
+    private frostProtectionService: Service | undefined;
+    private freshAirService:        Service | undefined;
+
+    private dehumidifierService: Service | undefined;
+    private fanService:          Service | undefined;
+
+    private horizontalSlatsService: Service | undefined;
+    private verticalSlatsService:   Service | undefined;
+
+    private outdoorTemperatureService: Service | undefined;
     //@formatter:on
 
+    /**
+     * Whether the props of the threshold temperatures are set for Fahrenheit (see
+     * {@link updateThresholdTemperatureProps}). Undefined until the props are set.
+     */
+    private thresholdTemperatureInFahrenheit: boolean | undefined;
+
+    /**
+     * Values set through {@link setState} which are not confirmed by the device yet. They take precedence over the
+     * status of the device (see {@link getDeviceStatus}), so the characteristics reflect a change right away instead
+     * of after the next status response.
+     */
+    private readonly optimisticState: Partial<DeviceStatus> = {};
+
+    /**
+     * Values confirmed by the device, which are watched until the time given by <i>until</i>: a status response
+     * reporting a different value means the device did not keep the change (see {@link checkConfirmedState}).
+     */
+    private readonly confirmedState: Record<string, { value: number, until: number }> = {};
+
+    /**
+     * Time in milliseconds during which a value confirmed by the device is watched (see {@link confirmedState}).
+     */
+    private static readonly confirmationWindow: number = 5000;
+
     /**
      * Constructs a new {@link GreeAirConditionerAccessory}, initializes it (this includes initializing the underlying
      * {@link GreeAirConditionerDevice} object).
@@ -56,31 +135,15 @@ export class GreeAirConditionerAccessory {
             platform.logger,
             platform.crypto,
             platform.socket,
-            this.accessory.context.device,
-            this.refresh
+            this.accessory.context.device
         );
+        this.device
+            .on('statusChanged', (diff: StatusDiff) => this.refresh(Object.keys(diff)))
+            .on('availabilityChanged', () => this.refresh());
 
         this.heaterCoolerService =
             this.accessory.getService(this.Service.HeaterCooler) ||
             this.accessory.addService(this.Service.HeaterCooler);
-        this.xFanService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
-        this.healthService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
-        this.lightService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
-        this.sleepService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
-        this.turboService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
-        this.quietService =
-            this.accessory.getService(this.Service.Switch) ||
-            this.accessory.addService(this.Service.Switch);
 
         this.setAccessoryInformation(this.accessory.context.device);
 
@@ -89,16 +152,9 @@ export class GreeAirConditionerAccessory {
         this.bindTargetHeaterCoolerStateHandlers();
         this.bindCurrentTemperatureHandlers();
         this.bindThresholdTemperatureHandlers();
-        this.bindRotationSpeed();
         this.bindTemperatureDisplayUnits();
-        this.bindSwingMode();
 
-        this.bindXFanHandlers();
-        this.bindHealthHandlers();
-        this.bindLightHandlers();
-        this.bindSleepHandlers();
-        this.bindQuietHandlers();
-        this.bindTurboHandlers();
+        this.configureServices();
     }
 
 
@@ -128,9 +184,9 @@ export class GreeAirConditionerAccessory {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
 
-        switch (this.device.getDeviceStatus()[cmd.power.code]) {
+        switch (this.getDeviceStatus()[cmd.power.code]) {
             case cmd.power.value.on:
-                switch (this.device.getDeviceStatus()[cmd.mode.code]) {
+                switch (this.getDeviceStatus()[cmd.mode.code]) {
                     case cmd.mode.value.auto:
                     case cmd.mode.value.cool:
                     case cmd.mode.value.heat:
@@ -147,10 +203,15 @@ export class GreeAirConditionerAccessory {
     /**
      * It sets device's {@link GreeAirConditionerCommands.power power} with accessory's active state. This function
      * returns immediately if the value to be set is the same as the one returned by {@link handleActiveGet}.
+     * <br>
+     * If the accessory is activated while the device is in {@link GreeAirConditionerCommands.mode.value.dry dry} or
+     * {@link GreeAirConditionerCommands.mode.value.fan fan} mode, the device will also receive a command for setting
+     * {@link GreeAirConditionerCommands.mode mode} to the one matching the last known target state, and the
+     * dehumidifier and fan services (if exposed) are reported as inactive.
      *
      * @param value Active state to be set.
      */
-    handleActiveSet(value): void {
+    async handleActiveSet(value): Promise<void> {
         if (value === this.handleActiveGet()) {
             return;
         }
@@ -165,8 +226,14 @@ export class GreeAirConditionerAccessory {
             })()
         };
         //@formatter:on
+        if (value === this.Characteristic.Active.ACTIVE && !this.isHeaterCoolerMode()) {
+            commands[cmd.mode.code] = this.targetHeaterCoolerStateToMode(this.heaterCoolerService
+                .getCharacteristic(this.Characteristic.TargetHeaterCoolerState).value);
 
-        this.device.cmd(commands);
+            this.deactivateOtherServices(this.heaterCoolerService);
+        }
+
+        await this.setState(commands);
     }
 
     //endregion
@@ -182,14 +249,21 @@ export class GreeAirConditionerAccessory {
      * <i>AUTO</i> or <i>COOL</i>, than <i>current state</i> is <b>COOLING</b>. If <i>target temperature</i> is greater
      * than <i>current temperature</i> and <i>target state</i> is either <i>AUTO</i> or <i>HEAT</i>, than
      * <i>current state</i> is <b>HEATING</b>. Otherwise, <i>current state</i> is <b>IDLE</b>.
+     * <br>
+     * If {@link handleActiveGet} returns <i>INACTIVE</i>, <i>current state</i> is <b>INACTIVE</b>.
      *
-     * @returns {@link Characteristic.CurrentHeaterCoolerState} (1, 2 or 3 meaning <b>IDLE</b>, <b>HEATING</b> or <b>COOLING</b>).
+     * @returns {@link Characteristic.CurrentHeaterCoolerState} (0, 1, 2 or 3 meaning <b>INACTIVE</b>, <b>IDLE</b>,
+     * <b>HEATING</b> or <b>COOLING</b>).
      */
-    handleCurrentHeaterCoolerStateGet(): 1 | 2 | 3 {
+    handleCurrentHeaterCoolerStateGet(): 0 | 1 | 2 | 3 {
         if (this.device.isUnavailable()) {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
 
+        if (this.handleActiveGet() === this.Characteristic.Active.INACTIVE) {
+            return this.Characteristic.CurrentHeaterCoolerState.INACTIVE;
+        }
+
         //@formatter:off
         const currentTemperature: number    = this.handleCurrentTemperatureGet();
         const targetTemperature:  number    = this.handleThresholdTemperatureGet();
@@ -220,18 +294,26 @@ export class GreeAirConditionerAccessory {
 
     /**
      * It uses device's {@link GreeAirConditionerCommands.mode mode} to determine accessory's target state.
+     * <br>
+     * If the device is in {@link GreeAirConditionerCommands.mode.value.dry dry} or
+     * {@link GreeAirConditionerCommands.mode.value.fan fan} mode (which have no equivalent target state), the last
+     * known target state is returned, and the accessory is reported as inactive by {@link handleActiveGet}.
      *
-     * @returns {@link Characteristic.TargetHeaterCoolerState} (0, 1 or 2 meaning <b>AUTO</b>, <b>COOL</b> or <b>HEAT</b>).
+     * @returns {@link Characteristic.TargetHeaterCoolerState} (0, 1 or 2 meaning <b>AUTO</b>, <b>HEAT</b> or <b>COOL</b>).
      */
     handleTargetHeaterCoolerStateGet(): 0 | 1 | 2 {
         if (this.device.isUnavailable()) {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.mode.code]) {
+        switch (this.getDeviceStatus()[cmd.mode.code]) {
             case cmd.mode.value.auto: return this.Characteristic.TargetHeaterCoolerState.AUTO;
             case cmd.mode.value.cool: return this.Characteristic.TargetHeaterCoolerState.COOL;
             case cmd.mode.value.heat: return this.Characteristic.TargetHeaterCoolerState.HEAT;
+            case cmd.mode.value.dry:
+            case cmd.mode.value.fan:
+                return <0 | 1 | 2>this.heaterCoolerService
+                    .getCharacteristic(this.Characteristic.TargetHeaterCoolerState).value;
         }
         //@formatter:on
         throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
@@ -243,52 +325,28 @@ export class GreeAirConditionerAccessory {
      * {@link handleTargetHeaterCoolerStateGet}.
      * <br>
      * This function will also send a command to the device for setting
-     * {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to a predefined value based on what
-     * {@link handleSwingModeGet} is returning.
+     * {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to the default value of the new target state (see
+     * {@link defaultSwingUpDown}) based on what {@link handleSwingModeGet} is returning.
      *
      * @param value Target state to be set.
      */
-    handleTargetHeaterCoolerStateSet(value): void {
+    async handleTargetHeaterCoolerStateSet(value): Promise<void> {
         if (value === this.handleTargetHeaterCoolerStateGet()) {
             return;
         }
 
         //@formatter:off
         const commands = {
-            [cmd.mode.code]: (() => {
-                switch (value) {
-                    case this.Characteristic.TargetHeaterCoolerState.AUTO: return cmd.mode.value.auto;
-                    case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.mode.value.heat;
-                    case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.mode.value.cool;
-                }
-            })(),
-            [cmd.swingLeftRight.code]: cmd.swingLeftRight.value.default
+            [cmd.mode.code]: this.targetHeaterCoolerStateToMode(value),
+            ...this.swingLeftRightReset(),
+            [cmd.swingUpDown.code]: this.defaultSwingUpDown(
+                value,
+                this.handleSwingModeGet() === this.Characteristic.SwingMode.SWING_ENABLED
+            )
         };
-        switch (this.handleSwingModeGet()) {
-            case this.Characteristic.SwingMode.SWING_DISABLED:
-                commands[cmd.swingUpDown.code] = (() => {
-                    switch (value) {
-                        case this.Characteristic.TargetHeaterCoolerState.AUTO: return cmd.swingUpDown.value.default;
-                        case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.swingUpDown.value.fixedLowest;
-                        case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.swingUpDown.value.fixedHighest;
-                    }
-                    return cmd.swingUpDown.value.default;
-                })();
-                break;
-            case this.Characteristic.SwingMode.SWING_ENABLED:
-                commands[cmd.swingUpDown.code] = (() => {
-                    switch (value) {
-                        case this.Characteristic.TargetHeaterCoolerState.AUTO: return cmd.swingUpDown.value.default;
-                        case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.swingUpDown.value.swingLowest;
-                        case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.swingUpDown.value.swingHighest;
-                    }
-                    return cmd.swingUpDown.value.default;
-                })();
-                break;
-        }
         //@formatter:on
 
-        this.device.cmd(commands);
+        await this.setState(commands);
     }
 
     //endregion Target Heater Cooler State
@@ -307,7 +365,7 @@ export class GreeAirConditionerAccessory {
         if (this.device.isUnavailable()) {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
-        return this.device.getDeviceStatus()[cmd.temperatureSensor.code] - 40;
+        return this.getDeviceStatus()[cmd.temperatureSensor.code] - 40;
     }
 
     //endregion
@@ -318,6 +376,10 @@ export class GreeAirConditionerAccessory {
     /**
      * It uses device's {@link GreeAirConditionerCommands.targetTemperature target temperature} to determine accessory's
      * target temperature.
+     * <br>
+     * If the device operates in Fahrenheit, the {@link GreeAirConditionerCommands.temperatureOffset temperature offset}
+     * (half degree bit) is used as well for finding the Fahrenheit target temperature shown by the device (see
+     * {@link Temperature.greeToFahrenheit}), which is then returned in Celsius.
      *
      * @returns A number representing accessory's target temperature in Celsius.
      */
@@ -325,32 +387,46 @@ export class GreeAirConditionerAccessory {
         if (this.device.isUnavailable()) {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
-        return this.device.getDeviceStatus()[cmd.targetTemperature.code];
+
+        const status: DeviceStatus = this.getDeviceStatus();
+
+        return this.isFahrenheit()
+            ? Temperature.fahrenheitToCelsius(Temperature.greeToFahrenheit(status.SetTem!, status.TemRec || 0))
+            : status[cmd.targetTemperature.code];
     }
 
     /**
      * It sets device's {@link GreeAirConditionerCommands.targetTemperature target temperature} with accessory's
-     * threshold temperature. This function returns immediately if the value to be set is the same as the one returned
-     * by {@link handleThresholdTemperatureGet} or if {@link handleTemperatureDisplayUnitsGet} returns <i>null</i>.
+     * threshold temperature, rounded to a whole degree in the operating units of the device. This function returns
+     * immediately if the rounded value is the same as the current target temperature.
      * <br>
-     * If {@link handleTemperatureDisplayUnitsGet} returns
-     * {@link Characteristic.TemperatureDisplayUnits.CELSIUS CELSIUS} than the device will also receive a command for
-     * setting {@link GreeAirConditionerCommands.temperatureOffset temperature offset} to 1.
+     * If the device operates in Fahrenheit, the device will also receive a command for setting
+     * {@link GreeAirConditionerCommands.temperatureOffset temperature offset} (half degree bit), as the remote does
+     * (see {@link Temperature.fahrenheitToGree}).
      *
-     * @param value Threshold temperature to be set.
+     * @param value Threshold temperature to be set, in Celsius.
      */
-    handleThresholdTemperatureSet(value): void {
-        if (value === this.handleThresholdTemperatureGet()) {
-            return;
-        }
+    async handleThresholdTemperatureSet(value): Promise<void> {
+        const status: DeviceStatus = this.getDeviceStatus();
+
+        if (this.isFahrenheit()) {
+            const fahrenheit: number = Math.round(Temperature.celsiusToFahrenheit(value));
+
+            if (fahrenheit === Temperature.greeToFahrenheit(status.SetTem!, status.TemRec || 0)) {
+                return;
+            }
 
-        const units: number = this.handleTemperatureDisplayUnitsGet();
+            const {SetTem, TemRec} = Temperature.fahrenheitToGree(fahrenheit);
+            await this.setState({[cmd.targetTemperature.code]: SetTem, [cmd.temperatureOffset.code]: TemRec});
+        } else {
+            const celsius: number = Math.round(value);
 
-        const commands = units === this.Characteristic.TemperatureDisplayUnits.CELSIUS
-            ? {[cmd.targetTemperature.code]: value}
-            : {[cmd.targetTemperature.code]: value, [cmd.temperatureOffset.code]: 1};
+            if (celsius === status.SetTem) {
+                return;
+            }
 
-        this.device.cmd(commands);
+            await this.setState({[cmd.targetTemperature.code]: celsius});
+        }
     }
 
     //endregion
@@ -368,7 +444,7 @@ export class GreeAirConditionerAccessory {
         if (this.device.isUnavailable()) {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
-        return this.device.getDeviceStatus()[cmd.speed.code] * 20;
+        return this.getDeviceStatus()[cmd.speed.code] * 20;
     }
 
     /**
@@ -378,14 +454,14 @@ export class GreeAirConditionerAccessory {
      *
      * @param value Rotation speed to be set.
      */
-    handleRotationSpeedSet(value): void {
+    async handleRotationSpeedSet(value): Promise<void> {
         if (value === this.handleRotationSpeedGet()
             || this.handleQuietGet()
             || this.handleTurboGet()) {
             return;
         }
 
-        this.device.cmd({[cmd.speed.code]: value / 20});
+        await this.setState({[cmd.speed.code]: value / 20});
     }
 
     //endregion
@@ -400,8 +476,9 @@ export class GreeAirConditionerAccessory {
      * The accessory's {@link handleCurrentTemperatureGet} and {@link handleThresholdTemperatureGet} are operating with
      * <i>CELSIUS</i> and independently to what this function returns.
      * <br>
-     * The accessory's {@link handleThresholdTemperatureSet} is operating with <i>CELSIUS</i> but it uses this function
-     * to send the proper command/commands to the device.
+     * The accessory's {@link handleThresholdTemperatureGet} and {@link handleThresholdTemperatureSet} are operating
+     * with <i>CELSIUS</i>, but they convert the target temperature like the remote does when the device operates in
+     * <i>FAHRENHEIT</i>.
      *
      * @returns {@link Characteristic.TemperatureDisplayUnits} (0 or 1 meaning <b>CELSIUS</b> or <b>FAHRENHEIT</b>).
      */
@@ -410,7 +487,7 @@ export class GreeAirConditionerAccessory {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.units.code]) {
+        switch (this.getDeviceStatus()[cmd.units.code]) {
             case cmd.units.value.celsius:    return this.Characteristic.TemperatureDisplayUnits.CELSIUS;
             case cmd.units.value.fahrenheit: return this.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
         }
@@ -425,7 +502,7 @@ export class GreeAirConditionerAccessory {
      *
      * @param value Temperature display units to be set.
      */
-    handleTemperatureDisplayUnitsSet(value): void {
+    async handleTemperatureDisplayUnitsSet(value): Promise<void> {
         if (value === this.handleTemperatureDisplayUnitsGet()) {
             return;
         }
@@ -441,7 +518,7 @@ export class GreeAirConditionerAccessory {
         };
         //@formatter:on
 
-        this.device.cmd(commands);
+        await this.setState(commands);
     }
 
     //endregion
@@ -460,7 +537,7 @@ export class GreeAirConditionerAccessory {
             throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
 
-        const swingUpDown: SwUpDn = this.device.getDeviceStatus()[cmd.swingUpDown.code];
+        const swingUpDown: SwUpDn = this.getDeviceStatus()[cmd.swingUpDown.code];
 
         return (this.isSwingingEnabled(swingUpDown))
             ? this.Characteristic.SwingMode.SWING_ENABLED
@@ -473,51 +550,398 @@ export class GreeAirConditionerAccessory {
      * {@link handleSwingModeGet} or if {@link handleTargetHeaterCoolerStateGet} returns <i>null</i>.
      * <br>
      * This function will send a command to the device for setting
-     * {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to a predefined value based on what
-     * {@link handleTargetHeaterCoolerStateGet} is returning.
+     * {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to the default value (see
+     * {@link defaultSwingUpDown}) of what {@link handleTargetHeaterCoolerStateGet} is returning.
      *
      * @param value Swing mode to be set.
      */
-    handleSwingModeSet(value) {
+    async handleSwingModeSet(value): Promise<void> {
         if (value === this.handleSwingModeGet()) {
             return;
         }
 
         const targetState: number = this.handleTargetHeaterCoolerStateGet();
 
-        const commands = {
-            [cmd.swingLeftRight.code]: cmd.swingLeftRight.value.default
-        };
-        //@formatter:off
-        switch (value) {
-            case this.Characteristic.SwingMode.SWING_DISABLED:
-                commands[cmd.swingUpDown.code] = (() => {
-                    switch (targetState) {
-                        case this.Characteristic.TargetHeaterCoolerState.AUTO: return cmd.swingUpDown.value.default;
-                        case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.swingUpDown.value.fixedLowest;
-                        case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.swingUpDown.value.fixedHighest;
-                    }
-                    return cmd.swingUpDown.value.default;
-                })();
-                break;
-            case this.Characteristic.SwingMode.SWING_ENABLED:
-                commands[cmd.swingUpDown.code] = (() => {
-                    switch (targetState) {
-                        case this.Characteristic.TargetHeaterCoolerState.AUTO: return cmd.swingUpDown.value.default;
-                        case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.swingUpDown.value.swingLowest;
-                        case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.swingUpDown.value.swingHighest;
-                    }
-                    return cmd.swingUpDown.value.default;
-                })();
-                break;
+        await this.setState({
+            ...this.swingLeftRightReset(),
+            [cmd.swingUpDown.code]: this.defaultSwingUpDown(
+                targetState,
+                value === this.Characteristic.SwingMode.SWING_ENABLED
+            )
+        });
+    }
+
+    //endregion
+
+    //endregion
+
+
+    //region Dehumidifier Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.power power} and {@link GreeAirConditionerCommands.mode mode}
+     * to determine whether the dehumidifier is active or not. The dehumidifier is considered active only if
+     * {@link GreeAirConditionerCommands.power.code power} is {@link GreeAirConditionerCommands.power.value.on on} and
+     * {@link GreeAirConditionerCommands.mode.code mode} is {@link GreeAirConditionerCommands.mode.value.dry dry}, such
+     * that it is never active at the same time as the heater cooler (see {@link handleActiveGet}).
+     *
+     * @returns {@link Characteristic.Active} (0 or 1 meaning <b>INACTIVE</b> or <b>ACTIVE</b>).
+     */
+    handleDehumidifierActiveGet(): 0 | 1 {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+
+        return this.getDeviceStatus()[cmd.power.code] === cmd.power.value.on &&
+        this.getDeviceStatus()[cmd.mode.code] === cmd.mode.value.dry
+            ? this.Characteristic.Active.ACTIVE
+            : this.Characteristic.Active.INACTIVE;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.power power} and {@link GreeAirConditionerCommands.mode mode}
+     * with dehumidifier's active state. This function returns immediately if the value to be set is the same as the
+     * one returned by {@link handleDehumidifierActiveGet}.
+     * <br>
+     * Activating the dehumidifier turns the device on in {@link GreeAirConditionerCommands.mode.value.dry dry} mode, and
+     * the heater cooler and the fan are reported as inactive. Deactivating the dehumidifier turns the device off.
+     *
+     * @param value Active state to be set.
+     */
+    async handleDehumidifierActiveSet(value): Promise<void> {
+        if (value === this.handleDehumidifierActiveGet()) {
+            return;
+        }
+
+        if (value === this.Characteristic.Active.ACTIVE) {
+            this.deactivateOtherServices(this.dehumidifierService);
+            await this.setState({[cmd.power.code]: cmd.power.value.on, [cmd.mode.code]: cmd.mode.value.dry});
+        } else {
+            await this.setState({[cmd.power.code]: cmd.power.value.off});
+        }
+    }
+
+    /**
+     * It uses {@link handleDehumidifierActiveGet} to determine dehumidifier's current state.
+     *
+     * @returns {@link Characteristic.CurrentHumidifierDehumidifierState} (0 or 3 meaning <b>INACTIVE</b> or
+     * <b>DEHUMIDIFYING</b>).
+     */
+    handleCurrentHumidifierDehumidifierStateGet(): 0 | 3 {
+        return this.handleDehumidifierActiveGet() === this.Characteristic.Active.ACTIVE
+            ? this.Characteristic.CurrentHumidifierDehumidifierState.DEHUMIDIFYING
+            : this.Characteristic.CurrentHumidifierDehumidifierState.INACTIVE;
+    }
+
+    /**
+     * The dehumidifier is locked to the dehumidifier target state.
+     *
+     * @returns {@link Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER}.
+     */
+    handleTargetHumidifierDehumidifierStateGet(): 2 {
+        return this.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER;
+    }
+
+    //endregion
+
+
+    //region Fan Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.power power} and {@link GreeAirConditionerCommands.mode mode}
+     * to determine whether the fan is active or not. The fan is considered active only if
+     * {@link GreeAirConditionerCommands.power.code power} is {@link GreeAirConditionerCommands.power.value.on on} and
+     * {@link GreeAirConditionerCommands.mode.code mode} is {@link GreeAirConditionerCommands.mode.value.fan fan}, such
+     * that it is never active at the same time as the heater cooler (see {@link handleActiveGet}).
+     *
+     * @returns {@link Characteristic.Active} (0 or 1 meaning <b>INACTIVE</b> or <b>ACTIVE</b>).
+     */
+    handleFanActiveGet(): 0 | 1 {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+
+        return this.getDeviceStatus()[cmd.power.code] === cmd.power.value.on &&
+        this.getDeviceStatus()[cmd.mode.code] === cmd.mode.value.fan
+            ? this.Characteristic.Active.ACTIVE
+            : this.Characteristic.Active.INACTIVE;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.power power} and {@link GreeAirConditionerCommands.mode mode}
+     * with fan's active state. This function returns immediately if the value to be set is the same as the one
+     * returned by {@link handleFanActiveGet}.
+     * <br>
+     * Activating the fan turns the device on in {@link GreeAirConditionerCommands.mode.value.fan fan} mode, and the
+     * heater cooler and the dehumidifier are reported as inactive. Deactivating the fan turns the device off.
+     *
+     * @param value Active state to be set.
+     */
+    async handleFanActiveSet(value): Promise<void> {
+        if (value === this.handleFanActiveGet()) {
+            return;
+        }
+
+        if (value === this.Characteristic.Active.ACTIVE) {
+            this.deactivateOtherServices(this.fanService);
+            await this.setState({[cmd.power.code]: cmd.power.value.on, [cmd.mode.code]: cmd.mode.value.fan});
+        } else {
+            await this.setState({[cmd.power.code]: cmd.power.value.off});
+        }
+    }
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.speed speed} to determine fan's rotation speed. The rotation
+     * speed is a discrete value between 1 and 6: 1 means {@link GreeAirConditionerCommands.speed.value.auto auto},
+     * while 2 to 6 mean {@link GreeAirConditionerCommands.speed.value.low low} to
+     * {@link GreeAirConditionerCommands.speed.value.high high}. 0 is left to HomeKit for turning the fan off.
+     *
+     * @returns A number representing fan's rotation speed.
+     */
+    handleFanRotationSpeedGet(): number {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return this.getDeviceStatus()[cmd.speed.code] + 1;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.speed speed} with fan's rotation speed minus 1 (see
+     * {@link handleFanRotationSpeedGet}). This function returns immediately if the value to be set is 0 (HomeKit turns
+     * the fan off through {@link handleFanActiveSet}), if it is the same as the one returned by
+     * {@link handleFanRotationSpeedGet} or if either {@link handleQuietGet} or {@link handleTurboGet} returns true.
+     *
+     * @param value Rotation speed to be set.
+     */
+    async handleFanRotationSpeedSet(value): Promise<void> {
+        if (value === 0
+            || value === this.handleFanRotationSpeedGet()
+            || this.handleQuietGet()
+            || this.handleTurboGet()) {
+            return;
+        }
+
+        await this.setState({[cmd.speed.code]: value - 1});
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.swingUpDown swingUpDown} with fan's swing mode. This function
+     * returns immediately if the value to be set is the same as the one returned by {@link handleSwingModeGet}, which
+     * is shared with the heater cooler.
+     * <br>
+     * This function will send a command to the device for setting
+     * {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to
+     * {@link GreeAirConditionerCommands.swingUpDown.value.full full} when swinging is enabled, or to
+     * {@link GreeAirConditionerCommands.swingUpDown.value.default default} otherwise.
+     *
+     * @param value Swing mode to be set.
+     */
+    async handleFanSwingModeSet(value): Promise<void> {
+        if (value === this.handleSwingModeGet()) {
+            return;
         }
+
+        //@formatter:off
+        await this.setState({
+            ...this.swingLeftRightReset(),
+            [cmd.swingUpDown.code]: value === this.Characteristic.SwingMode.SWING_ENABLED
+                ? cmd.swingUpDown.value.full
+                : cmd.swingUpDown.value.default
+        });
         //@formatter:on
+    }
+
+    //endregion
+
+
+    //region Outdoor Temperature Sensor Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.outdoorTemperature outdoor temperature} to determine outdoor
+     * temperature sensor's current temperature. Like the indoor
+     * {@link GreeAirConditionerCommands.temperatureSensor temperature sensor}, it has an offset of 40. The sensor is
+     * reported as unavailable while the device does not report the outdoor temperature.
+     *
+     * @returns A number representing the outdoor temperature in Celsius.
+     */
+    handleOutdoorTemperatureGet(): number {
+        const outdoorTemperature: number | undefined = this.getDeviceStatus()[cmd.outdoorTemperature.code];
+
+        if (this.device.isUnavailable() || outdoorTemperature === undefined) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return outdoorTemperature - 40;
+    }
+
+    //endregion
+
+
+    //region Horizontal Slats Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} to determine horizontal slats'
+     * current state: <b>SWINGING</b> if it is {@link GreeAirConditionerCommands.swingLeftRight.value.full full},
+     * <b>FIXED</b> otherwise.
+     *
+     * @returns {@link Characteristic.CurrentSlatState} (0 or 2 meaning <b>FIXED</b> or <b>SWINGING</b>).
+     */
+    handleHorizontalSlatStateGet(): 0 | 2 {
+        return this.handleHorizontalSwingModeGet() === this.Characteristic.SwingMode.SWING_ENABLED
+            ? this.Characteristic.CurrentSlatState.SWINGING
+            : this.Characteristic.CurrentSlatState.FIXED;
+    }
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} and
+     * {@link horizontalTiltAngles} to determine horizontal slats' tilt angle. The angle is 0 if the device is swinging
+     * or it uses its {@link GreeAirConditionerCommands.swingLeftRight.value.default default} position.
+     *
+     * @returns A number between -90 (left) and 90 (right) representing horizontal slats' tilt angle.
+     */
+    handleHorizontalTiltAngleGet(): number {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return this.horizontalTiltAngles[this.getDeviceStatus()[cmd.swingLeftRight.code]] || 0;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} to the fixed position whose
+     * tilt angle (see {@link horizontalTiltAngles}) is the closest to the given one. This function returns immediately
+     * if the device is already in that position.
+     *
+     * @param value Tilt angle to be set.
+     */
+    async handleHorizontalTiltAngleSet(value): Promise<void> {
+        const position: number = this.closestPosition(this.horizontalTiltAngles, value);
+
+        if (position === this.getDeviceStatus()[cmd.swingLeftRight.code]) {
+            return;
+        }
+
+        await this.setState({[cmd.swingLeftRight.code]: position});
+    }
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} to determine horizontal slats'
+     * swing mode.
+     *
+     * @returns {@link Characteristic.SwingMode} (0 or 1 meaning <b>SWING DISABLED</b> or <b>SWING ENABLED</b>).
+     */
+    handleHorizontalSwingModeGet(): 0 | 1 {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+
+        return this.getDeviceStatus()[cmd.swingLeftRight.code] === cmd.swingLeftRight.value.full
+            ? this.Characteristic.SwingMode.SWING_ENABLED
+            : this.Characteristic.SwingMode.SWING_DISABLED;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} to
+     * {@link GreeAirConditionerCommands.swingLeftRight.value.full full} when swinging is enabled, or to
+     * {@link GreeAirConditionerCommands.swingLeftRight.value.default default} otherwise. This function returns
+     * immediately if the value to be set is the same as the one returned by {@link handleHorizontalSwingModeGet}.
+     *
+     * @param value Swing mode to be set.
+     */
+    async handleHorizontalSwingModeSet(value): Promise<void> {
+        if (value === this.handleHorizontalSwingModeGet()) {
+            return;
+        }
 
-        this.device.cmd(commands);
+        await this.setState({
+            [cmd.swingLeftRight.code]: value === this.Characteristic.SwingMode.SWING_ENABLED
+                ? cmd.swingLeftRight.value.full
+                : cmd.swingLeftRight.value.default
+        });
     }
 
     //endregion
 
+
+    //region Vertical Slats Characteristics Handlers
+
+    /**
+     * It uses {@link handleSwingModeGet} to determine vertical slats' current state.
+     *
+     * @returns {@link Characteristic.CurrentSlatState} (0 or 2 meaning <b>FIXED</b> or <b>SWINGING</b>).
+     */
+    handleVerticalSlatStateGet(): 0 | 2 {
+        return this.handleSwingModeGet() === this.Characteristic.SwingMode.SWING_ENABLED
+            ? this.Characteristic.CurrentSlatState.SWINGING
+            : this.Characteristic.CurrentSlatState.FIXED;
+    }
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to determine vertical slats' tilt
+     * angle: the angle of the fixed position (see {@link verticalFixedTiltAngles}) or of the partial swing range (see
+     * {@link verticalSwingTiltAngles}). The angle is 0 for the {@link GreeAirConditionerCommands.swingUpDown.value.full
+     * full} swing and the {@link GreeAirConditionerCommands.swingUpDown.value.default default} position.
+     *
+     * @returns A number between -90 (lowest) and 90 (highest) representing vertical slats' tilt angle.
+     */
+    handleVerticalTiltAngleGet(): number {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+
+        const swingUpDown: SwUpDn = this.getDeviceStatus()[cmd.swingUpDown.code];
+
+        return this.verticalFixedTiltAngles[swingUpDown] ?? this.verticalSwingTiltAngles[swingUpDown] ?? 0;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.swingUpDown swingUpDown} to the position whose tilt angle is
+     * the closest to the given one. While the device is swinging, the partial swing ranges are used (see
+     * {@link verticalSwingTiltAngles}), otherwise the fixed positions are used (see {@link verticalFixedTiltAngles}).
+     * This function returns immediately if the device is already in that position.
+     *
+     * @param value Tilt angle to be set.
+     */
+    async handleVerticalTiltAngleSet(value): Promise<void> {
+        const tiltAngles: Record<number, number> = this.handleSwingModeGet() === this.Characteristic.SwingMode.SWING_ENABLED
+            ? this.verticalSwingTiltAngles
+            : this.verticalFixedTiltAngles;
+        const position: number = this.closestPosition(tiltAngles, value);
+
+        if (position === this.getDeviceStatus()[cmd.swingUpDown.code]) {
+            return;
+        }
+
+        await this.setState({[cmd.swingUpDown.code]: position});
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.swingUpDown swingUpDown} with vertical slats' swing mode,
+     * keeping the current tilt angle: a fixed position becomes the partial swing range around it and vice versa. The
+     * {@link GreeAirConditionerCommands.swingUpDown.value.default default} position becomes the
+     * {@link GreeAirConditionerCommands.swingUpDown.value.full full} swing and vice versa. This function returns
+     * immediately if the value to be set is the same as the one returned by {@link handleSwingModeGet}.
+     *
+     * @param value Swing mode to be set.
+     */
+    async handleVerticalSwingModeSet(value): Promise<void> {
+        if (value === this.handleSwingModeGet()) {
+            return;
+        }
+
+        const swingUpDown: SwUpDn = this.getDeviceStatus()[cmd.swingUpDown.code];
+
+        //@formatter:off
+        await this.setState({
+            [cmd.swingUpDown.code]: value === this.Characteristic.SwingMode.SWING_ENABLED
+                ? swingUpDown in this.verticalFixedTiltAngles
+                    ? this.closestPosition(this.verticalSwingTiltAngles, this.verticalFixedTiltAngles[swingUpDown])
+                    : cmd.swingUpDown.value.full
+                : swingUpDown in this.verticalSwingTiltAngles
+                    ? this.closestPosition(this.verticalFixedTiltAngles, this.verticalSwingTiltAngles[swingUpDown])
+                    : cmd.swingUpDown.value.default
+        });
+        //@formatter:on
+    }
+
     //endregion
 
 
@@ -530,7 +954,7 @@ export class GreeAirConditionerAccessory {
      */
     handleXFanGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.xFan.code]) {
+        switch (this.getDeviceStatus()[cmd.xFan.code]) {
             case cmd.xFan.value.on:  return true;
             case cmd.xFan.value.off: return false;
         }
@@ -545,12 +969,12 @@ export class GreeAirConditionerAccessory {
      *
      * @param value <b>xFan</b> switch state to be set.
      */
-    handleXFanSet(value): void {
+    async handleXFanSet(value): Promise<void> {
         if (value === this.handleXFanGet()) {
             return;
         }
 
-        this.device.cmd({[cmd.xFan.code]: value ? cmd.xFan.value.on : cmd.xFan.value.off});
+        await this.setState({[cmd.xFan.code]: value ? cmd.xFan.value.on : cmd.xFan.value.off});
     }
 
     //endregion
@@ -565,7 +989,7 @@ export class GreeAirConditionerAccessory {
      */
     handleHealthGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.health.code]) {
+        switch (this.getDeviceStatus()[cmd.health.code]) {
             case cmd.health.value.on:  return true;
             case cmd.health.value.off: return false;
         }
@@ -580,12 +1004,12 @@ export class GreeAirConditionerAccessory {
      *
      * @param value <b>health</b> switch state to be set.
      */
-    handleHealthSet(value): void {
+    async handleHealthSet(value): Promise<void> {
         if (value === this.handleHealthGet()) {
             return;
         }
 
-        this.device.cmd({[cmd.health.code]: value ? cmd.health.value.on : cmd.health.value.off});
+        await this.setState({[cmd.health.code]: value ? cmd.health.value.on : cmd.health.value.off});
     }
 
     //endregion
@@ -600,7 +1024,7 @@ export class GreeAirConditionerAccessory {
      */
     handleLightGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.light.code]) {
+        switch (this.getDeviceStatus()[cmd.light.code]) {
             case cmd.light.value.on:  return true;
             case cmd.light.value.off: return false;
         }
@@ -615,12 +1039,12 @@ export class GreeAirConditionerAccessory {
      *
      * @param value <b>light</b> switch state to be set.
      */
-    handleLightSet(value): void {
+    async handleLightSet(value): Promise<void> {
         if (value === this.handleLightGet()) {
             return;
         }
 
-        this.device.cmd({[cmd.light.code]: value ? cmd.light.value.on : cmd.light.value.off});
+        await this.setState({[cmd.light.code]: value ? cmd.light.value.on : cmd.light.value.off});
     }
 
     //endregion
@@ -635,7 +1059,7 @@ export class GreeAirConditionerAccessory {
      */
     handleSleepGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.sleep.code]) {
+        switch (this.getDeviceStatus()[cmd.sleep.code]) {
             case cmd.sleep.value.on:  return true;
             case cmd.sleep.value.off: return false;
         }
@@ -647,15 +1071,23 @@ export class GreeAirConditionerAccessory {
      * It sets device's {@link GreeAirConditionerCommands.sleep sleep} with accessory's <b>sleep</b> switch state.
      * This function returns immediately if the value to be set is the same as the one returned by
      * {@link handleSleepGet}.
+     * <br>
+     * If the device reports {@link GreeAirConditionerCommands.sleepMode sleepMode}, it is set along with
+     * {@link GreeAirConditionerCommands.sleep sleep}, otherwise some models ignore the command.
      *
      * @param value <b>sleep</b> switch state to be set.
      */
-    handleSleepSet(value): void {
+    async handleSleepSet(value): Promise<void> {
         if (value === this.handleSleepGet()) {
             return;
         }
 
-        this.device.cmd({[cmd.sleep.code]: value ? cmd.sleep.value.on : cmd.sleep.value.off});
+        const commands = {[cmd.sleep.code]: value ? cmd.sleep.value.on : cmd.sleep.value.off};
+        if (this.isColumnReported(cmd.sleepMode.code)) {
+            commands[cmd.sleepMode.code] = value ? cmd.sleepMode.value.on : cmd.sleepMode.value.off;
+        }
+
+        await this.setState(commands);
     }
 
     //endregion
@@ -670,7 +1102,7 @@ export class GreeAirConditionerAccessory {
      */
     handleQuietGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.quiet.code]) {
+        switch (this.getDeviceStatus()[cmd.quiet.code]) {
             case cmd.quiet.value.on:  return true;
             case cmd.quiet.value.off: return false;
         }
@@ -685,21 +1117,21 @@ export class GreeAirConditionerAccessory {
      *
      * @param value <b>quiet</b> switch state to be set.
      */
-    handleQuietSet(value): void {
-        if (value === this.handleSleepGet()) {
+    async handleQuietSet(value): Promise<void> {
+        if (value === this.handleQuietGet()) {
             return;
         }
 
-        let commands = {
+        const commands = {
             [cmd.quiet.code]: (() => {
-                return value ? cmd.quiet.value.on : cmd.quiet.value.off
+                return value ? cmd.quiet.value.on : cmd.quiet.value.off;
             })()
         };
         if (this.handleTurboGet()) {
             commands[cmd.turbo.code] = cmd.turbo.value.off;
         }
 
-        this.device.cmd(commands);
+        await this.setState(commands);
     }
 
     //endregion
@@ -714,7 +1146,7 @@ export class GreeAirConditionerAccessory {
      */
     handleTurboGet(): boolean {
         //@formatter:off
-        switch (this.device.getDeviceStatus()[cmd.turbo.code]) {
+        switch (this.getDeviceStatus()[cmd.turbo.code]) {
             case cmd.turbo.value.on:  return true;
             case cmd.turbo.value.off: return false;
         }
@@ -730,8 +1162,8 @@ export class GreeAirConditionerAccessory {
      *
      * @param value <b>turbo</b> switch state to be set.
      */
-    handleTurboSet(value): void {
-        if (value === this.handleSleepGet()) {
+    async handleTurboSet(value): Promise<void> {
+        if (value === this.handleTurboGet()) {
             return;
         }
 
@@ -739,21 +1171,259 @@ export class GreeAirConditionerAccessory {
             return;
         }
 
-        let commands = {
+        const commands = {
             [cmd.turbo.code]: (() => {
-                return value ? cmd.turbo.value.on : cmd.turbo.value.off
+                return value ? cmd.turbo.value.on : cmd.turbo.value.off;
             })()
         };
         if (this.handleQuietGet()) {
             commands[cmd.quiet.code] = cmd.quiet.value.off;
         }
 
-        this.device.cmd(commands);
+        await this.setState(commands);
+    }
+
+    //endregion
+
+    //region Energy Saving Switch Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.energySaving energySaving} to determine accessory's <b>energy
+     * saving</b> switch state. The switch is off if the device does not report {@link
+     * GreeAirConditionerCommands.energySaving energySaving}.
+     *
+     * @returns A boolean representing whether <b>energy saving</b> switch is on or off.
+     */
+    handleEnergySavingGet(): boolean {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return this.getDeviceStatus()[cmd.energySaving.code] === cmd.energySaving.value.on;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.energySaving energySaving} with accessory's <b>energy
+     * saving</b> switch state. This function returns immediately if the value to be set is the same as the one returned
+     * by {@link handleEnergySavingGet} or if the device does not report {@link GreeAirConditionerCommands.energySaving
+     * energySaving}.
+     *
+     * @param value <b>energy saving</b> switch state to be set.
+     */
+    async handleEnergySavingSet(value): Promise<void> {
+        if (value === this.handleEnergySavingGet()) {
+            return;
+        }
+        if (!this.isColumnReported(cmd.energySaving.code)) {
+            this.platform.logger.debug("handleEnergySavingSet() --- Device does not support %s", cmd.energySaving.code);
+            return;
+        }
+
+        await this.setState({[cmd.energySaving.code]: value ? cmd.energySaving.value.on : cmd.energySaving.value.off});
     }
 
     //endregion
 
 
+    //region 8°C Heat Switch Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.frostProtection frostProtection} to determine accessory's
+     * <b>8°C heat</b> switch state. The switch is off if the device does not report {@link
+     * GreeAirConditionerCommands.frostProtection frostProtection}.
+     *
+     * @returns A boolean representing whether <b>8°C heat</b> switch is on or off.
+     */
+    handleFrostProtectionGet(): boolean {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return this.getDeviceStatus()[cmd.frostProtection.code] === cmd.frostProtection.value.on;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.frostProtection frostProtection} with accessory's <b>8°C
+     * heat</b> switch state. This function returns immediately if the value to be set is the same as the one returned
+     * by {@link handleFrostProtectionGet} or if the device does not report {@link
+     * GreeAirConditionerCommands.frostProtection frostProtection}.
+     * <br>
+     * The device keeps the room at 8°C only while it is in {@link GreeAirConditionerCommands.mode.value.heat heat}
+     * mode.
+     *
+     * @param value <b>8°C heat</b> switch state to be set.
+     */
+    async handleFrostProtectionSet(value): Promise<void> {
+        if (value === this.handleFrostProtectionGet()) {
+            return;
+        }
+        if (!this.isColumnReported(cmd.frostProtection.code)) {
+            this.platform.logger.debug("handleFrostProtectionSet() --- Device does not support %s", cmd.frostProtection.code);
+            return;
+        }
+
+        await this.setState({[cmd.frostProtection.code]: value ? cmd.frostProtection.value.on : cmd.frostProtection.value.off});
+    }
+
+    //endregion
+
+
+    //region Fresh Air Switch Characteristics Handlers
+
+    /**
+     * It uses device's {@link GreeAirConditionerCommands.freshAir freshAir} to determine accessory's <b>fresh air</b>
+     * switch state. The switch is off if the device does not report {@link GreeAirConditionerCommands.freshAir
+     * freshAir}.
+     *
+     * @returns A boolean representing whether <b>fresh air</b> switch is on or off.
+     */
+    handleFreshAirGet(): boolean {
+        if (this.device.isUnavailable()) {
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+        return this.getDeviceStatus()[cmd.freshAir.code] === cmd.freshAir.value.on;
+    }
+
+    /**
+     * It sets device's {@link GreeAirConditionerCommands.freshAir freshAir} with accessory's <b>fresh air</b> switch
+     * state. This function returns immediately if the value to be set is the same as the one returned by {@link
+     * handleFreshAirGet} or if the device does not report {@link GreeAirConditionerCommands.freshAir freshAir}.
+     *
+     * @param value <b>fresh air</b> switch state to be set.
+     */
+    async handleFreshAirSet(value): Promise<void> {
+        if (value === this.handleFreshAirGet()) {
+            return;
+        }
+        if (!this.isColumnReported(cmd.freshAir.code)) {
+            this.platform.logger.debug("handleFreshAirSet() --- Device does not support %s", cmd.freshAir.code);
+            return;
+        }
+
+        await this.setState({[cmd.freshAir.code]: value ? cmd.freshAir.value.on : cmd.freshAir.value.off});
+    }
+
+    //endregion
+
+
+    /**
+     * Adds the optional services and characteristics which are both enabled (see {@link Config} and
+     * {@link FeaturesConfig}) and supported by the device (see {@link isSupported}), binds their handlers, and removes
+     * the other ones from the (cached) accessory. It is called again when the capabilities of the device are probed.
+     *
+     * @private
+     */
+    private configureServices(): void {
+        const features: FeaturesConfig | undefined =
+            this.platform.getDeviceConfig(this.accessory.context.device.mac)?.features;
+
+        //@formatter:off
+        this.removeUnnamedSwitches();
+        this.xFanService            = this.configureFeatureSwitch(features, 'xFan',            'X-Fan',         true);
+        this.healthService          = this.configureFeatureSwitch(features, 'health',          'Health',        true);
+        this.lightService           = this.configureFeatureSwitch(features, 'light',           'Light',         true);
+        this.sleepService           = this.configureFeatureSwitch(features, 'sleep',           'Sleep',         true);
+        this.turboService           = this.configureFeatureSwitch(features, 'turbo',           'Turbo',         true);
+        this.quietService           = this.configureFeatureSwitch(features, 'quiet',           'Quiet',         true);
+        this.energySavingService    = this.configureFeatureSwitch(features, 'energySaving',    'Energy Saving', false);
+        this.frostProtectionService = this.configureFeatureSwitch(features, 'frostProtection', '8°C Heat',      false);
+        this.freshAirService        = this.configureFeatureSwitch(features, 'freshAir',        'Fresh Air',     false);
+        //@formatter:on
+        this.horizontalSlatsService = this.configureOptionalService(
+            this.Service.Slats,
+            features?.horizontalSlats === true && this.isSupported(cmd.swingLeftRight.code),
+            'Horizontal Swing',
+            'horizontal'
+        );
+        this.verticalSlatsService = this.configureOptionalService(
+            this.Service.Slats,
+            features?.verticalSlats === true && this.isSupported(cmd.swingUpDown.code),
+            'Vertical Swing',
+            'vertical'
+        );
+        this.dehumidifierService = this.configureOptionalService(
+            this.Service.HumidifierDehumidifier,
+            (features?.dehumidifier ?? this.platform.config.dehumidifier) === true
+        );
+        this.fanService = this.configureOptionalService(
+            this.Service.Fanv2,
+            (features?.fan ?? this.platform.config.fan) === true
+        );
+        this.outdoorTemperatureService = this.configureOptionalService(
+            this.Service.TemperatureSensor,
+            features?.outdoorTemperature === true && this.isSupported(cmd.outdoorTemperature.code),
+            'Outdoor Temperature',
+            'outdoor'
+        );
+
+        this.bindRotationSpeed();
+        this.bindSwingMode();
+
+        this.bindXFanHandlers();
+        this.bindHealthHandlers();
+        this.bindLightHandlers();
+        this.bindSleepHandlers();
+        this.bindQuietHandlers();
+        this.bindTurboHandlers();
+        this.bindEnergySavingHandlers();
+        this.bindFrostProtectionHandlers();
+        this.bindFreshAirHandlers();
+
+        this.bindDehumidifierHandlers();
+        this.bindFanHandlers();
+        this.bindHorizontalSlatsHandlers();
+        this.bindVerticalSlatsHandlers();
+        this.bindOutdoorTemperatureHandlers();
+    }
+
+    /**
+     * Stores the capabilities probed by the device (see {@link GreeAirConditionerDevice.getCapabilities}) in the
+     * accessory context and reconfigures the services if they changed. The cached capabilities are used until the
+     * device is probed again, e.g. after a restart.
+     *
+     * @private
+     */
+    private updateCapabilities(): void {
+        const capabilities: string[] | undefined = this.device.getCapabilities();
+        const cachedCapabilities: string[] | undefined = this.accessory.context.capabilities;
+
+        if (capabilities === undefined ||
+            (cachedCapabilities?.length === capabilities.length && capabilities.every(c => cachedCapabilities.includes(c)))) {
+            return;
+        }
+
+        this.platform.logger.debug("updateCapabilities() --- Device %s supports %j", this.accessory.context.device.mac, capabilities);
+        this.accessory.context.capabilities = capabilities;
+        this.configureServices();
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+
+    /**
+     * Updates the cached context of the device in place (so the underlying {@link GreeAirConditionerDevice} uses the
+     * new values as well) and refreshes the accessory information. If the {@link ProtocolVersion} or the address of
+     * the device changed, the device is bound again.
+     *
+     * @param deviceContext Information about the device.
+     * @returns Whether the context changed.
+     */
+    public updateDeviceContext(deviceContext: DeviceContext): boolean {
+        const previous: DeviceContext = {...this.accessory.context.device};
+
+        if (Object.keys(deviceContext).every(k => previous[k] === deviceContext[k])) {
+            return false;
+        }
+
+        Object.assign(this.accessory.context.device, deviceContext);
+
+        this.setAccessoryInformation(this.accessory.context.device);
+        if ((previous.protocol || 1) !== (deviceContext.protocol || 1) ||
+            previous.address !== deviceContext.address ||
+            previous.port !== deviceContext.port) {
+            this.platform.logger.info("Device %s (%s) is now at %s", deviceContext.name, deviceContext.mac, deviceContext.address);
+            this.device.rebind();
+        }
+        return true;
+    }
+
+
     private setAccessoryInformation(deviceContext: DeviceContext): void {
         this.accessory.getService(this.Service.AccessoryInformation)!
             .setCharacteristic(this.Characteristic.Manufacturer, deviceContext.brand)
@@ -794,17 +1464,21 @@ export class GreeAirConditionerAccessory {
     private bindThresholdTemperatureHandlers(): void {
         this.heaterCoolerService
             .getCharacteristic(this.Characteristic.CoolingThresholdTemperature)
-            .setProps({minValue: 16, maxValue: 30, minStep: 1})
             .onGet(this.handleThresholdTemperatureGet.bind(this))
             .onSet(this.handleThresholdTemperatureSet.bind(this));
         this.heaterCoolerService
             .getCharacteristic(this.Characteristic.HeatingThresholdTemperature)
-            .setProps({minValue: 16, maxValue: 30, minStep: 1})
             .onGet(this.handleThresholdTemperatureGet.bind(this))
             .onSet(this.handleThresholdTemperatureSet.bind(this));
+        this.updateThresholdTemperatureProps();
     }
 
     private bindRotationSpeed(): void {
+        if (!this.configureOptionalCharacteristic(
+            this.heaterCoolerService, this.Characteristic.RotationSpeed, this.isSupported(cmd.speed.code))) {
+            return;
+        }
+
         this.heaterCoolerService
             .getCharacteristic(this.Characteristic.RotationSpeed)
             .setProps({minValue: 0, maxValue: 100, minStep: 20})
@@ -820,6 +1494,11 @@ export class GreeAirConditionerAccessory {
     }
 
     private bindSwingMode(): void {
+        if (!this.configureOptionalCharacteristic(
+            this.heaterCoolerService, this.Characteristic.SwingMode, this.isSupported(cmd.swingUpDown.code))) {
+            return;
+        }
+
         this.heaterCoolerService
             .getCharacteristic(this.Characteristic.SwingMode)
             .onGet(this.handleSwingModeGet.bind(this))
@@ -829,98 +1508,657 @@ export class GreeAirConditionerAccessory {
 
     private bindXFanHandlers(): void {
         this.xFanService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleXFanGet.bind(this))
             .onSet(this.handleXFanSet.bind(this));
     }
 
     private bindHealthHandlers(): void {
         this.healthService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleHealthGet.bind(this))
             .onSet(this.handleHealthSet.bind(this));
     }
 
     private bindLightHandlers(): void {
         this.lightService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleLightGet.bind(this))
             .onSet(this.handleLightSet.bind(this));
     }
 
     private bindSleepHandlers(): void {
         this.sleepService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleSleepGet.bind(this))
             .onSet(this.handleSleepSet.bind(this));
     }
 
     private bindQuietHandlers(): void {
         this.quietService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleQuietGet.bind(this))
             .onSet(this.handleQuietSet.bind(this));
     }
 
     private bindTurboHandlers(): void {
         this.turboService
-            .getCharacteristic(this.Characteristic.On)
+            ?.getCharacteristic(this.Characteristic.On)
             .onGet(this.handleTurboGet.bind(this))
             .onSet(this.handleTurboSet.bind(this));
     }
 
-    //endregion
+    private bindEnergySavingHandlers(): void {
+        this.energySavingService
+            ?.getCharacteristic(this.Characteristic.On)
+            .onGet(this.handleEnergySavingGet.bind(this))
+            .onSet(this.handleEnergySavingSet.bind(this));
+    }
 
+    private bindFrostProtectionHandlers(): void {
+        this.frostProtectionService
+            ?.getCharacteristic(this.Characteristic.On)
+            .onGet(this.handleFrostProtectionGet.bind(this))
+            .onSet(this.handleFrostProtectionSet.bind(this));
+    }
 
-    private refresh() {
-        this.heaterCoolerService
+    private bindFreshAirHandlers(): void {
+        this.freshAirService
+            ?.getCharacteristic(this.Characteristic.On)
+            .onGet(this.handleFreshAirGet.bind(this))
+            .onSet(this.handleFreshAirSet.bind(this));
+    }
+
+
+    private bindDehumidifierHandlers(): void {
+        if (!this.dehumidifierService) {
+            return;
+        }
+
+        this.dehumidifierService
             .getCharacteristic(this.Characteristic.Active)
-            .updateValue(this.handleActiveGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.CurrentHeaterCoolerState)
-            .updateValue(this.handleCurrentHeaterCoolerStateGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.TargetHeaterCoolerState)
-            .updateValue(this.handleCurrentHeaterCoolerStateGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.CurrentTemperature)
-            .updateValue(this.handleCurrentTemperatureGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.CoolingThresholdTemperature)
-            .updateValue(this.handleThresholdTemperatureGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.HeatingThresholdTemperature)
-            .updateValue(this.handleThresholdTemperatureGet());
-        this.heaterCoolerService
+            .onGet(this.handleDehumidifierActiveGet.bind(this))
+            .onSet(this.handleDehumidifierActiveSet.bind(this));
+        this.dehumidifierService
+            .getCharacteristic(this.Characteristic.CurrentHumidifierDehumidifierState)
+            .onGet(this.handleCurrentHumidifierDehumidifierStateGet.bind(this));
+        this.dehumidifierService
+            .getCharacteristic(this.Characteristic.TargetHumidifierDehumidifierState)
+            .setProps({
+                minValue: this.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER,
+                maxValue: this.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER,
+                validValues: [this.Characteristic.TargetHumidifierDehumidifierState.DEHUMIDIFIER]
+            })
+            .onGet(this.handleTargetHumidifierDehumidifierStateGet.bind(this));
+    }
+
+    private bindFanHandlers(): void {
+        if (!this.fanService) {
+            return;
+        }
+
+        this.fanService
+            .getCharacteristic(this.Characteristic.Active)
+            .onGet(this.handleFanActiveGet.bind(this))
+            .onSet(this.handleFanActiveSet.bind(this));
+        this.fanService
             .getCharacteristic(this.Characteristic.RotationSpeed)
-            .updateValue(this.handleRotationSpeedGet());
-        this.heaterCoolerService
-            .getCharacteristic(this.Characteristic.TemperatureDisplayUnits)
-            .updateValue(this.handleTemperatureDisplayUnitsGet());
-        this.heaterCoolerService
+            .setProps({minValue: 0, maxValue: 6, minStep: 1})
+            .onGet(this.handleFanRotationSpeedGet.bind(this))
+            .onSet(this.handleFanRotationSpeedSet.bind(this));
+        this.fanService
             .getCharacteristic(this.Characteristic.SwingMode)
-            .updateValue(this.handleSwingModeGet());
+            .onGet(this.handleSwingModeGet.bind(this))
+            .onSet(this.handleFanSwingModeSet.bind(this));
+    }
 
-        this.xFanService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleXFanGet());
-        this.healthService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleHealthGet());
-        this.lightService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleLightGet());
-        this.sleepService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleSleepGet());
-        this.quietService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleQuietGet());
-        this.turboService
-            .getCharacteristic(this.Characteristic.On)
-            .updateValue(this.handleTurboGet());
+    private bindOutdoorTemperatureHandlers(): void {
+        this.outdoorTemperatureService
+            ?.getCharacteristic(this.Characteristic.CurrentTemperature)
+            .setProps({minValue: -40, maxValue: 60})
+            .onGet(this.handleOutdoorTemperatureGet.bind(this));
     }
 
+    private bindHorizontalSlatsHandlers(): void {
+        if (!this.horizontalSlatsService) {
+            return;
+        }
+
+        this.horizontalSlatsService
+            .updateCharacteristic(this.Characteristic.SlatType, this.Characteristic.SlatType.HORIZONTAL);
+        this.horizontalSlatsService
+            .getCharacteristic(this.Characteristic.CurrentSlatState)
+            .onGet(this.handleHorizontalSlatStateGet.bind(this));
+        this.horizontalSlatsService
+            .getCharacteristic(this.Characteristic.CurrentTiltAngle)
+            .setProps({minValue: -90, maxValue: 90, minStep: 45})
+            .onGet(this.handleHorizontalTiltAngleGet.bind(this));
+        this.horizontalSlatsService
+            .getCharacteristic(this.Characteristic.TargetTiltAngle)
+            .setProps({minValue: -90, maxValue: 90, minStep: 45})
+            .onGet(this.handleHorizontalTiltAngleGet.bind(this))
+            .onSet(this.handleHorizontalTiltAngleSet.bind(this));
+        this.horizontalSlatsService
+            .getCharacteristic(this.Characteristic.SwingMode)
+            .onGet(this.handleHorizontalSwingModeGet.bind(this))
+            .onSet(this.handleHorizontalSwingModeSet.bind(this));
+    }
+
+    private bindVerticalSlatsHandlers(): void {
+        if (!this.verticalSlatsService) {
+            return;
+        }
+
+        this.verticalSlatsService
+            .updateCharacteristic(this.Characteristic.SlatType, this.Characteristic.SlatType.VERTICAL);
+        this.verticalSlatsService
+            .getCharacteristic(this.Characteristic.CurrentSlatState)
+            .onGet(this.handleVerticalSlatStateGet.bind(this));
+        this.verticalSlatsService
+            .getCharacteristic(this.Characteristic.CurrentTiltAngle)
+            .setProps({minValue: -90, maxValue: 90, minStep: 45})
+            .onGet(this.handleVerticalTiltAngleGet.bind(this));
+        this.verticalSlatsService
+            .getCharacteristic(this.Characteristic.TargetTiltAngle)
+            .setProps({minValue: -90, maxValue: 90, minStep: 45})
+            .onGet(this.handleVerticalTiltAngleGet.bind(this))
+            .onSet(this.handleVerticalTiltAngleSet.bind(this));
+        this.verticalSlatsService
+            .getCharacteristic(this.Characteristic.SwingMode)
+            .onGet(this.handleSwingModeGet.bind(this))
+            .onSet(this.handleVerticalSwingModeSet.bind(this));
+    }
+
+    //endregion
+
+
+    /**
+     * Updates the characteristics with the values returned by their get handlers. Only the characteristics whose
+     * values are computed from the given columns are updated, all of them if no columns are given.
+     *
+     * @param columns The columns which changed.
+     * @private
+     */
+    private refresh(columns?: string[]): void {
+        const changed = (...sources: string[]): boolean =>
+            columns === undefined || sources.some(col => columns.includes(col));
+
+        this.checkConfirmedState();
+        this.updateCapabilities();
+        this.updateThresholdTemperatureProps();
+
+        if (changed(cmd.power.code, cmd.mode.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.Active, this.handleActiveGet);
+            this.updateCharacteristic(
+                this.dehumidifierService, this.Characteristic.Active, this.handleDehumidifierActiveGet);
+            this.updateCharacteristic(
+                this.dehumidifierService, this.Characteristic.CurrentHumidifierDehumidifierState,
+                this.handleCurrentHumidifierDehumidifierStateGet);
+            this.updateCharacteristic(this.fanService, this.Characteristic.Active, this.handleFanActiveGet);
+        }
+        if (changed(cmd.power.code, cmd.mode.code, cmd.temperatureSensor.code, cmd.targetTemperature.code,
+            cmd.temperatureOffset.code, cmd.units.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.CurrentHeaterCoolerState, this.handleCurrentHeaterCoolerStateGet);
+        }
+        if (changed(cmd.mode.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.TargetHeaterCoolerState, this.handleTargetHeaterCoolerStateGet);
+        }
+        if (changed(cmd.temperatureSensor.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.CurrentTemperature, this.handleCurrentTemperatureGet);
+        }
+        if (changed(cmd.targetTemperature.code, cmd.temperatureOffset.code, cmd.units.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.CoolingThresholdTemperature, this.handleThresholdTemperatureGet);
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.HeatingThresholdTemperature, this.handleThresholdTemperatureGet);
+        }
+        if (changed(cmd.units.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.TemperatureDisplayUnits, this.handleTemperatureDisplayUnitsGet);
+        }
+        if (changed(cmd.speed.code)) {
+            this.updateCharacteristic(
+                this.heaterCoolerService, this.Characteristic.RotationSpeed, this.handleRotationSpeedGet);
+            this.updateCharacteristic(this.fanService, this.Characteristic.RotationSpeed, this.handleFanRotationSpeedGet);
+        }
+        if (changed(cmd.swingUpDown.code)) {
+            this.updateCharacteristic(this.heaterCoolerService, this.Characteristic.SwingMode, this.handleSwingModeGet);
+            this.updateCharacteristic(this.fanService, this.Characteristic.SwingMode, this.handleSwingModeGet);
+            this.updateCharacteristic(
+                this.verticalSlatsService, this.Characteristic.CurrentSlatState, this.handleVerticalSlatStateGet);
+            this.updateCharacteristic(
+                this.verticalSlatsService, this.Characteristic.CurrentTiltAngle, this.handleVerticalTiltAngleGet);
+            this.updateCharacteristic(
+                this.verticalSlatsService, this.Characteristic.TargetTiltAngle, this.handleVerticalTiltAngleGet);
+            this.updateCharacteristic(this.verticalSlatsService, this.Characteristic.SwingMode, this.handleSwingModeGet);
+        }
+        if (changed(cmd.swingLeftRight.code)) {
+            this.updateCharacteristic(
+                this.horizontalSlatsService, this.Characteristic.CurrentSlatState, this.handleHorizontalSlatStateGet);
+            this.updateCharacteristic(
+                this.horizontalSlatsService, this.Characteristic.CurrentTiltAngle, this.handleHorizontalTiltAngleGet);
+            this.updateCharacteristic(
+                this.horizontalSlatsService, this.Characteristic.TargetTiltAngle, this.handleHorizontalTiltAngleGet);
+            this.updateCharacteristic(
+                this.horizontalSlatsService, this.Characteristic.SwingMode, this.handleHorizontalSwingModeGet);
+        }
+
+        if (changed(cmd.xFan.code)) {
+            this.updateCharacteristic(this.xFanService, this.Characteristic.On, this.handleXFanGet);
+        }
+        if (changed(cmd.health.code)) {
+            this.updateCharacteristic(this.healthService, this.Characteristic.On, this.handleHealthGet);
+        }
+        if (changed(cmd.light.code)) {
+            this.updateCharacteristic(this.lightService, this.Characteristic.On, this.handleLightGet);
+        }
+        if (changed(cmd.sleep.code)) {
+            this.updateCharacteristic(this.sleepService, this.Characteristic.On, this.handleSleepGet);
+        }
+        if (changed(cmd.quiet.code)) {
+            this.updateCharacteristic(this.quietService, this.Characteristic.On, this.handleQuietGet);
+        }
+        if (changed(cmd.turbo.code)) {
+            this.updateCharacteristic(this.turboService, this.Characteristic.On, this.handleTurboGet);
+        }
+        if (changed(cmd.energySaving.code)) {
+            this.updateCharacteristic(this.energySavingService, this.Characteristic.On, this.handleEnergySavingGet);
+        }
+        if (changed(cmd.frostProtection.code)) {
+            this.updateCharacteristic(this.frostProtectionService, this.Characteristic.On, this.handleFrostProtectionGet);
+        }
+        if (changed(cmd.freshAir.code)) {
+            this.updateCharacteristic(this.freshAirService, this.Characteristic.On, this.handleFreshAirGet);
+        }
+
+        if (changed(cmd.outdoorTemperature.code)) {
+            this.updateCharacteristic(
+                this.outdoorTemperatureService, this.Characteristic.CurrentTemperature, this.handleOutdoorTemperatureGet);
+        }
+    }
+
+    /**
+     * Updates the value of a characteristic with the value returned by its get handler. If the get handler fails (e.g.
+     * the device is in a mode which has no HomeKit equivalent), the characteristic is updated with the error instead,
+     * so one failing characteristic does not prevent the others from being refreshed. Nothing is updated if the
+     * service or the characteristic is not exposed.
+     *
+     * @param service The service of the characteristic.
+     * @param characteristic The characteristic to be updated.
+     * @param getHandler The get handler of the characteristic.
+     * @private
+     */
+    private updateCharacteristic(service: Service | undefined,
+                                 characteristic: WithUUID<new () => Characteristic>,
+                                 getHandler: () => CharacteristicValue): void {
+        if (!service || !service.characteristics.some(c => c.UUID === characteristic.UUID)) {
+            return;
+        }
+
+        try {
+            service.getCharacteristic(characteristic).updateValue(getHandler.call(this));
+        } catch (e: any) {
+            service.getCharacteristic(characteristic).updateValue(e);
+        }
+    }
+
+
+    /**
+     * Adds an optional service to the accessory if it is enabled, or removes it from the (cached) accessory if it is
+     * disabled. Services sharing the same type (e.g. the feature switches) are told apart by their subtype, and get
+     * a {@link Characteristic.ConfiguredName} when they are added, so they can be renamed in the Home app.
+     *
+     * @param service The type of the service.
+     * @param enabled Whether the service is enabled.
+     * @param name The name of the service, used only when the service is added.
+     * @param subtype The subtype of the service.
+     * @returns The service if it is enabled, undefined otherwise.
+     * @private
+     */
+    private configureOptionalService(service: WithUUID<typeof Service>,
+                                     enabled: boolean,
+                                     name?: string,
+                                     subtype?: string): Service | undefined {
+        const existingService: Service | undefined = subtype
+            ? this.accessory.getServiceById(service, subtype)
+            : this.accessory.getService(service);
+
+        if (!enabled) {
+            if (existingService) {
+                this.accessory.removeService(existingService);
+            }
+            return undefined;
+        }
+        if (existingService) {
+            return existingService;
+        }
+
+        const addedService: Service = this.accessory.addService(service, name, subtype);
+        if (name) {
+            addedService.addOptionalCharacteristic(this.Characteristic.ConfiguredName);
+            addedService.setCharacteristic(this.Characteristic.ConfiguredName, name);
+        }
+        return addedService;
+    }
+
+    /**
+     * Configures the switch of a feature through {@link configureOptionalService}. The switch is exposed if it is
+     * enabled in {@link FeaturesConfig} (or by default) and the device supports the matching column.
+     *
+     * @param features {@link FeaturesConfig} of the device.
+     * @param feature The feature, which is both the key of the matching {@link GreeAirConditionerCommands} and the
+     * subtype of the switch.
+     * @param name The name of the switch.
+     * @param enabledByDefault Whether the switch is exposed when it is not configured.
+     * @returns The switch if it is exposed, undefined otherwise.
+     * @private
+     */
+    private configureFeatureSwitch(features: FeaturesConfig | undefined,
+                                   feature: keyof FeaturesConfig,
+                                   name: string,
+                                   enabledByDefault: boolean): Service | undefined {
+        const enabled: boolean = (features?.[feature] ?? enabledByDefault) && this.isSupported(cmd[feature].code);
+
+        return this.configureOptionalService(this.Service.Switch, enabled, name, feature);
+    }
+
+    /**
+     * Adds an optional characteristic to a service if it is enabled, or removes it from the (cached) service if it is
+     * disabled.
+     *
+     * @param service The service of the characteristic.
+     * @param characteristic The type of the characteristic.
+     * @param enabled Whether the characteristic is enabled.
+     * @returns Whether the characteristic is enabled.
+     * @private
+     */
+    private configureOptionalCharacteristic(service: Service,
+                                            characteristic: WithUUID<new () => Characteristic>,
+                                            enabled: boolean): boolean {
+        const existingCharacteristic: Characteristic | undefined =
+            service.characteristics.find(c => c.UUID === characteristic.UUID);
+
+        if (!enabled && existingCharacteristic) {
+            service.removeCharacteristic(existingCharacteristic);
+        }
+        return enabled;
+    }
+
+    /**
+     * Returns whether the device supports a column, according to the capabilities stored in the accessory context
+     * (see {@link updateCapabilities}). Every column is considered supported until the device is probed.
+     *
+     * @param column The column to be checked.
+     * @returns Whether the device supports the column.
+     * @private
+     */
+    private isSupported(column: string): boolean {
+        const capabilities: string[] | undefined = this.accessory.context.capabilities;
+
+        return capabilities === undefined || capabilities.includes(column);
+    }
+
+    /**
+     * Removes the switches without a subtype from the (cached) accessory. Such switches were added by previous
+     * versions, which exposed all the features through the same switch.
+     *
+     * @private
+     */
+    private removeUnnamedSwitches(): void {
+        this.accessory.services
+            .filter(service => service.UUID === this.Service.Switch.UUID && !service.subtype)
+            .forEach(service => this.accessory.removeService(service));
+    }
+
+    /**
+     * Reports every exposed service which can turn the device on (heater cooler, dehumidifier and fan) as inactive,
+     * except the given one, since the device can only be in one mode at a time.
+     *
+     * @param activeService The service being activated.
+     * @private
+     */
+    private deactivateOtherServices(activeService: Service | undefined): void {
+        [this.heaterCoolerService, this.dehumidifierService, this.fanService]
+            .filter(service => service && service !== activeService)
+            .forEach(service => service!.updateCharacteristic(this.Characteristic.Active, this.Characteristic.Active.INACTIVE));
+    }
+
+    /**
+     * Returns the command resetting device's {@link GreeAirConditionerCommands.swingLeftRight swingLeftRight} to
+     * {@link GreeAirConditionerCommands.swingLeftRight.value.default default}, which is sent along with the vertical
+     * swing commands. If the horizontal slats are exposed, the horizontal position is controlled only by them, and no
+     * command is returned.
+     *
+     * @returns The command to be merged into the vertical swing commands.
+     * @private
+     */
+    private swingLeftRightReset(): Record<string, number> {
+        return this.horizontalSlatsService ? {} : {[cmd.swingLeftRight.code]: cmd.swingLeftRight.value.default};
+    }
+
+    /**
+     * Returns the default value of device's {@link GreeAirConditionerCommands.swingUpDown swingUpDown} for a target
+     * state, used when the target state or the swing mode of the heater cooler changes. The defaults can be changed
+     * through {@link Config.verticalSwingDefaults}: by default, heating blows to the lowest position and cooling to the
+     * highest one, while auto uses the {@link GreeAirConditionerCommands.swingUpDown.value.default default} position.
+     *
+     * @param targetState {@link Characteristic.TargetHeaterCoolerState} for which the default value is returned.
+     * @param swinging Whether the default value is a swinging one or a fixed one.
+     * @returns The default {@link GreeAirConditionerCommands.swingUpDown.value swingUpDown}.
+     * @private
+     */
+    private defaultSwingUpDown(targetState: number, swinging: boolean): number {
+        const defaults: VerticalSwingDefaultsConfig | undefined = this.platform.config.verticalSwingDefaults;
+
+        //@formatter:off
+        switch (targetState) {
+            case this.Characteristic.TargetHeaterCoolerState.HEAT:
+                return swinging
+                    ? defaults?.heatSwinging ?? cmd.swingUpDown.value.swingLowest
+                    : defaults?.heatFixed    ?? cmd.swingUpDown.value.fixedLowest;
+            case this.Characteristic.TargetHeaterCoolerState.COOL:
+                return swinging
+                    ? defaults?.coolSwinging ?? cmd.swingUpDown.value.swingHighest
+                    : defaults?.coolFixed    ?? cmd.swingUpDown.value.fixedHighest;
+        }
+        //@formatter:on
+        return cmd.swingUpDown.value.default;
+    }
+
+    /**
+     * Returns the position whose tilt angle is the closest to the given one.
+     *
+     * @param tiltAngles Tilt angles of the positions.
+     * @param angle The tilt angle to look for.
+     * @returns The closest position.
+     * @private
+     */
+    private closestPosition(tiltAngles: Record<number, number>, angle: number): number {
+        return Number(Object.keys(tiltAngles).reduce((closest, candidate) =>
+            Math.abs(tiltAngles[candidate] - angle) < Math.abs(tiltAngles[closest] - angle) ? candidate : closest
+        ));
+    }
+
+    /**
+     * Sets the state of the device and waits for the device to confirm it (see
+     * {@link GreeAirConditionerDevice.setState}). Used by all the set handlers, so that HomeKit is notified with
+     * <i>SERVICE_COMMUNICATION_FAILURE</i> when the device does not acknowledge the write.
+     * <br>
+     * The state is applied optimistically (see {@link optimisticState}) and all the characteristics are refreshed
+     * right away, including the derived ones (e.g. the current heater cooler state after a mode change). The
+     * optimistic values are dropped once the device confirms or rejects the state; if the device reports other values,
+     * the characteristics are rolled back to them and the difference is logged.
+     *
+     * @param state The columns to be set and their values.
+     * @private
+     */
+    private async setState(state: Partial<DeviceStatus>): Promise<void> {
+        const deviceContext: DeviceContext = this.accessory.context.device;
+
+        Object.keys(state).forEach(col => delete this.confirmedState[col]);
+        Object.assign(this.optimisticState, state);
+        this.refresh();
+
+        let confirmed: Partial<DeviceStatus>;
+        try {
+            confirmed = await this.device.setState(state);
+        } catch (e: any) {
+            this.dropOptimisticState(state);
+            this.platform.logger.warn("Rolled back %j of device %s (%s): %s", state, deviceContext.name, deviceContext.mac,
+                e.message);
+            this.refresh();
+            throw new this.platform.api.hap.HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        }
+
+        this.dropOptimisticState(state);
+        Object.keys(confirmed).forEach(col => {
+            if (confirmed[col] !== state[col]) {
+                this.platform.logger.warn("Device %s (%s) set %s to %d instead of %d", deviceContext.name, deviceContext.mac,
+                    col, confirmed[col], state[col]);
+            }
+            this.confirmedState[col] = {
+                value: confirmed[col],
+                until: Date.now() + GreeAirConditionerAccessory.confirmationWindow
+            };
+        });
+        this.refresh();
+    }
+
+    /**
+     * Drops the values of a state from the {@link optimisticState}, unless they were set again in the meantime.
+     *
+     * @param state The state whose values are dropped.
+     * @private
+     */
+    private dropOptimisticState(state: Partial<DeviceStatus>): void {
+        Object.keys(state).forEach(col => {
+            if (this.optimisticState[col] === state[col]) {
+                delete this.optimisticState[col];
+            }
+        });
+    }
+
+    /**
+     * Checks the status of the device against the {@link confirmedState}. The values which are no longer watched are
+     * dropped, and the ones contradicted by the status are logged and dropped (the characteristics follow the status,
+     * so they are rolled back by the refresh).
+     *
+     * @private
+     */
+    private checkConfirmedState(): void {
+        const deviceContext: DeviceContext = this.accessory.context.device;
+        const status: DeviceStatus = this.device.getDeviceStatus();
+
+        Object.keys(this.confirmedState).forEach(col => {
+            const {value, until} = this.confirmedState[col];
+
+            if (until < Date.now()) {
+                delete this.confirmedState[col];
+            } else if (status[col] !== undefined && status[col] !== value) {
+                this.platform.logger.warn("Device %s (%s) reverted %s from %d to %d", deviceContext.name, deviceContext.mac,
+                    col, value, status[col]);
+                delete this.confirmedState[col];
+            }
+        });
+    }
+
+    /**
+     * Returns the status of the device (see {@link GreeAirConditionerDevice.getDeviceStatus}) with the
+     * {@link optimisticState} applied on top of it.
+     *
+     * @returns The status used by all the get handlers.
+     * @private
+     */
+    private getDeviceStatus(): DeviceStatus {
+        return {...this.device.getDeviceStatus(), ...this.optimisticState};
+    }
+
+    /**
+     * Returns whether the device operates in Fahrenheit, according to its
+     * {@link GreeAirConditionerCommands.units units}.
+     *
+     * @returns Whether the device operates in Fahrenheit.
+     * @private
+     */
+    private isFahrenheit(): boolean {
+        return this.getDeviceStatus()[cmd.units.code] === cmd.units.value.fahrenheit;
+    }
+
+    /**
+     * Sets the props of the threshold temperatures according to the operating units of the device, so the sliders of
+     * the Home app match the temperatures which can be set with the remote: whole degrees between 16°C and 30°C in
+     * Celsius, or whole degrees between 61°F and 86°F (which need a finer step in Celsius) in Fahrenheit. The props
+     * are only set when the units change.
+     *
+     * @private
+     */
+    private updateThresholdTemperatureProps(): void {
+        const fahrenheit: boolean = this.isFahrenheit();
+
+        if (fahrenheit === this.thresholdTemperatureInFahrenheit) {
+            return;
+        }
+        this.thresholdTemperatureInFahrenheit = fahrenheit;
+
+        //@formatter:off
+        const props = fahrenheit
+            ? {
+                minValue: Math.floor(Temperature.fahrenheitToCelsius(Temperature.min.fahrenheit) * 10) / 10,
+                maxValue: Math.ceil(Temperature.fahrenheitToCelsius(Temperature.max.fahrenheit) * 10) / 10,
+                minStep:  0.1
+            }
+            : {minValue: Temperature.min.celsius, maxValue: Temperature.max.celsius, minStep: 1};
+        //@formatter:on
+
+        this.heaterCoolerService.getCharacteristic(this.Characteristic.CoolingThresholdTemperature).setProps(props);
+        this.heaterCoolerService.getCharacteristic(this.Characteristic.HeatingThresholdTemperature).setProps(props);
+    }
+
+    /**
+     * Returns whether the device reports a column of its status. Columns which are not reported are not supported by
+     * the device, so the commands for them are not sent.
+     *
+     * @param column The column to be checked.
+     * @returns Whether the device reports the column.
+     * @private
+     */
+    private isColumnReported(column: string): boolean {
+        return this.getDeviceStatus()[column] !== undefined;
+    }
+
+    /**
+     * Returns whether the device is in one of the modes represented by the heater cooler service
+     * ({@link GreeAirConditionerCommands.mode.value.auto auto}, {@link GreeAirConditionerCommands.mode.value.cool cool}
+     * or {@link GreeAirConditionerCommands.mode.value.heat heat}).
+     *
+     * @returns Whether the device is in a heater cooler mode.
+     * @private
+     */
+    private isHeaterCoolerMode(): boolean {
+        return [cmd.mode.value.auto, cmd.mode.value.cool, cmd.mode.value.heat]
+            .includes(this.getDeviceStatus()[cmd.mode.code]);
+    }
+
+    /**
+     * Converts a heater cooler target state to the matching device's {@link GreeAirConditionerCommands.mode mode}.
+     *
+     * @param value {@link Characteristic.TargetHeaterCoolerState} to be converted.
+     * @returns The matching {@link GreeAirConditionerCommands.mode.value mode value}.
+     * @private
+     */
+    private targetHeaterCoolerStateToMode(value): number {
+        //@formatter:off
+        switch (value) {
+            case this.Characteristic.TargetHeaterCoolerState.HEAT: return cmd.mode.value.heat;
+            case this.Characteristic.TargetHeaterCoolerState.COOL: return cmd.mode.value.cool;
+        }
+        //@formatter:on
+        return cmd.mode.value.auto;
+    }
 
     /**
      * This function uses {@link isSwingingEnabledValues} to check whether the device has swinging on or off.
@@ -108,6 +108,36 @@ export let GreeAirConditionerCommands = {
             off: 0,
             on:  1
         }
-    }
+    },
+    energySaving: {
+        code: 'SvSt',
+        value: {
+            off: 0,
+            on:  1
+        }
+    },
+    frostProtection: {
+        code: 'StHt',
+        value: {
+            off: 0,
+            on:  1
+        }
+    },
+    freshAir: {
+        code: 'Air',
+        value: {
+            off: 0,
+            on:  1
+        }
+    },
+    sleepMode: {
+        code: 'SlpMod',
+        value: {
+            off: 0,
+            on:  1
+        }
+    },
+    heatCoolType: {code: 'HeatCoolType'},
+    outdoorTemperature: {code: 'OutEnvTem'}
     //@formatter:on
 }
\ No newline at end of file
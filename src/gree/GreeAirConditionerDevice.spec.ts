@@ -0,0 +1,623 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {RemoteInfo} from 'dgram';
+import {Crypto} from '../util/crypto';
+import {FakeSocket, SentMessage} from '../test/FakeSocket';
+import {createConfig, createDeviceContext, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerCommands} from './GreeAirConditionerCommands';
+import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+
+describe('GreeAirConditionerDevice', () => {
+
+    const crypto: Crypto = new Crypto();
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    let clock: FakeTimers.InstalledClock;
+    let socket: FakeSocket;
+    let logger: MockLogger;
+    let refreshes: number;
+
+    const createDevice = (deviceContext: DeviceContext = createDeviceContext()): GreeAirConditionerDevice => {
+        const device = new GreeAirConditionerDevice(
+            createConfig(),
+            logger.asLogger(),
+            crypto,
+            socket.asSocket(),
+            deviceContext,
+        );
+
+        device.on('statusChanged', () => ++refreshes);
+        socket.on('message', (buffer: Buffer) => device.handleResponse(JSON.parse(buffer.toString())));
+        return device;
+    };
+
+    const handleDevResponses = (contexts: DeviceContext[]): void => {
+        socket.on('message', (buffer: Buffer, remoteInfo: RemoteInfo) => GreeAirConditionerDevice.handleDevResponse(
+            logger.asLogger(), crypto, JSON.parse(buffer.toString()), remoteInfo, c => contexts.push(c)));
+    };
+
+    const bind = (device: GreeAirConditionerDevice): GreeAirConditionerDevice => {
+        socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+        return device;
+    };
+
+    beforeEach(() => {
+        clock = FakeTimers.install();
+        socket = new FakeSocket();
+        logger = new MockLogger();
+        refreshes = 0;
+    });
+
+    afterEach(() => clock.uninstall());
+
+    describe('discovery', () => {
+
+        it('broadcasts a scan request to the scan address', () => {
+            GreeAirConditionerDevice.scan(createConfig(), logger.asLogger(), socket.asSocket());
+
+            assert.deepStrictEqual(socket.sent, [{message: {t: 'scan'}, port: 7000, address: '192.168.1.255'}]);
+        });
+
+        it('sends a scan request to a single address', () => {
+            GreeAirConditionerDevice.scan(createConfig(), logger.asLogger(), socket.asSocket(), '10.0.20.15', 7001);
+
+            assert.deepStrictEqual(socket.sent, [{message: {t: 'scan'}, port: 7001, address: '10.0.20.15'}]);
+        });
+
+        it('extracts the device context from a dev response', () => {
+            const contexts: DeviceContext[] = [];
+            handleDevResponses(contexts);
+
+            socket.reply(crypto, mac, {t: 'dev', mac, brand: 'gree', model: 'gree', name: 'AC', ver: 'V1.2.1'}, {tcid: ''});
+
+            assert.deepStrictEqual(contexts, [createDeviceContext({name: 'AC', protocol: 1})]);
+        });
+
+        it('ignores responses which are not dev responses', () => {
+            const contexts: DeviceContext[] = [];
+            handleDevResponses(contexts);
+
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+
+            assert.deepStrictEqual(contexts, []);
+        });
+
+        it('detects the protocol version', () => {
+            const devPack = <DevPack>{t: 'dev', mac, ver: 'V1.2.1'};
+            const packMessage = <PackMessage>{t: 'pack', i: 1, uid: 0, cid: mac, tcid: '', pack: ''};
+
+            assert.strictEqual(GreeAirConditionerDevice.detectProtocolVersion(packMessage, devPack), 1);
+            assert.strictEqual(GreeAirConditionerDevice.detectProtocolVersion({...packMessage, tag: 'x'}, devPack), 2);
+            assert.strictEqual(GreeAirConditionerDevice.detectProtocolVersion(packMessage, {...devPack, ver: 'V1.20'}), 1);
+            assert.strictEqual(GreeAirConditionerDevice.detectProtocolVersion(packMessage, {...devPack, ver: 'V1.21'}), 2);
+            assert.strictEqual(GreeAirConditionerDevice.detectProtocolVersion(packMessage, {...devPack, ver: 'V2.0'}), 2);
+        });
+    });
+
+    describe('binding', () => {
+
+        it('sends a bind request encrypted with the generic key', () => {
+            createDevice();
+
+            assert.strictEqual(socket.sent.length, 1);
+            assert.strictEqual(socket.sent[0].message.i, 1);
+            assert.strictEqual(socket.sent[0].message.tcid, mac);
+            assert.strictEqual(socket.sent[0].address, '192.168.1.10');
+            assert.deepStrictEqual(socket.lastPack(crypto), {t: 'bind', uid: 0, mac});
+        });
+
+        it('uses AES-GCM for protocol version 2', () => {
+            createDevice(createDeviceContext({protocol: 2}));
+
+            assert.notStrictEqual(socket.sent[0].message.tag, undefined);
+            assert.deepStrictEqual(socket.lastPack(crypto), {t: 'bind', uid: 0, mac});
+        });
+
+        it('sends the requests to the configured port of the device', () => {
+            createDevice(createDeviceContext({port: 7001}));
+
+            assert.strictEqual(socket.sent[0].port, 7001);
+        });
+    });
+
+    describe('status polling', () => {
+
+        it('requests the status of all columns with the device key after binding', () => {
+            const device = bind(createDevice());
+
+            device.getDeviceStatus();
+            clock.tick(1000);
+
+            assert.strictEqual(socket.sent.length, 2);
+            assert.strictEqual(socket.sent[1].message.i, 0);
+            assert.deepStrictEqual(socket.lastPack(crypto, key), {
+                t: 'status',
+                mac,
+                cols: Object.keys(GreeAirConditionerCommands).map(k => GreeAirConditionerCommands[k].code),
+            });
+        });
+
+        it('updates the status and emits statusChanged on a dat response', () => {
+            const device = bind(createDevice());
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'SetTem'], dat: [1, 23]}, {key});
+
+            assert.strictEqual(device.isUnavailable(), false);
+            assert.strictEqual(device.getDeviceStatus().Pow, 1);
+            assert.strictEqual(device.getDeviceStatus().SetTem, 23);
+            assert.strictEqual(refreshes, 1);
+        });
+
+        it('probes the capabilities from the first dat response after binding', () => {
+            const device = bind(createDevice());
+            assert.strictEqual(device.getCapabilities(), undefined);
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'Health', 'SvSt'], dat: [1, 0, <number><unknown>'']}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+            assert.deepStrictEqual(device.getCapabilities(), ['Pow', 'Health']);
+        });
+
+        it('stops polling when the status is not read for five seconds', () => {
+            bind(createDevice());
+
+            clock.tick(10000);
+            const sent = socket.sent.length;
+            clock.tick(10000);
+
+            assert.strictEqual(socket.sent.length, sent);
+        });
+
+        it('keeps polling when the continuous refresh is enabled', () => {
+            bind(createDevice()).setContinuousRefresh(true);
+
+            clock.tick(10000);
+            const sent = socket.sent.length;
+            clock.tick(10000);
+
+            assert.ok(socket.sent.length >= sent + 10);
+        });
+
+        it('is unavailable until the first dat response', () => {
+            const device = bind(createDevice());
+
+            assert.strictEqual(device.isUnavailable(), true);
+        });
+
+        it('becomes unavailable after five unresponded status requests', () => {
+            const device = bind(createDevice());
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+            for (let i = 0; i < 4; i++) {
+                device.getDeviceStatus();
+                clock.tick(1000);
+                assert.strictEqual(device.isUnavailable(), false);
+            }
+            device.getDeviceStatus();
+            clock.tick(1000);
+
+            assert.strictEqual(device.isUnavailable(), true);
+        });
+
+        it('becomes available again on a dat response', () => {
+            const device = bind(createDevice());
+            for (let i = 0; i < 5; i++) {
+                device.getDeviceStatus();
+                clock.tick(1000);
+            }
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [0]}, {key});
+
+            assert.strictEqual(device.isUnavailable(), false);
+        });
+    });
+
+    describe('promises', () => {
+
+        it('resolves refreshStatus on the next dat response', async () => {
+            const device = bind(createDevice());
+
+            const status = device.refreshStatus();
+            assert.deepStrictEqual(socket.lastPack(crypto, key)?.t, 'status');
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+            assert.strictEqual((await status).Pow, 1);
+        });
+
+        it('rejects refreshStatus when the device does not respond', async () => {
+            const device = bind(createDevice());
+
+            const status = device.refreshStatus();
+            clock.tick(3000);
+
+            await assert.rejects(status);
+        });
+
+        it('resolves waitUntilBound on the bindok response', async () => {
+            const device = createDevice();
+            let bound = false;
+
+            const promise = device.waitUntilBound().then(() => bound = true);
+            await Promise.resolve();
+            assert.strictEqual(bound, false);
+
+            bind(device);
+            await promise;
+            assert.strictEqual(bound, true);
+            await device.waitUntilBound();
+        });
+
+        it('does not reject waitUntilBound when an error is emitted before the bindok response', async () => {
+            const device = createDevice();
+            const errors: Error[] = [];
+            device.on('error', error => errors.push(error));
+
+            const promise = device.waitUntilBound();
+            const send = socket.send;
+            socket.send = () => {
+                throw new Error('send EHOSTUNREACH 192.168.1.10:7000');
+            };
+            clock.tick(2000);
+            socket.send = send;
+            assert.strictEqual(errors.length, 1);
+
+            bind(device);
+            await promise;
+        });
+    });
+
+    describe('events', () => {
+
+        it('emits bound on a bindok response', () => {
+            const device = createDevice();
+            let bound = 0;
+            device.on('bound', () => ++bound);
+
+            bind(device);
+
+            assert.strictEqual(bound, 1);
+        });
+
+        it('emits statusChanged with the changed columns only', () => {
+            const device = bind(createDevice());
+            const diffs: StatusDiff[] = [];
+            device.on('statusChanged', diff => diffs.push(diff));
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'SetTem'], dat: [1, 23]}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'SetTem'], dat: [1, 23]}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'SetTem'], dat: [1, 24]}, {key});
+
+            assert.deepStrictEqual(diffs, [
+                {Pow: {old: undefined, new: 1}, SetTem: {old: undefined, new: 23}},
+                {SetTem: {old: 23, new: 24}},
+            ]);
+        });
+
+        it('emits availabilityChanged when the availability flips', () => {
+            const device = bind(createDevice());
+            const availability: boolean[] = [];
+            device.on('availabilityChanged', available => availability.push(available));
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+            for (let i = 0; i < 5; i++) {
+                device.getDeviceStatus();
+                clock.tick(1000);
+            }
+
+            assert.deepStrictEqual(availability, [true, false]);
+        });
+
+        it('emits commandAcknowledged with the confirmed values', () => {
+            const device = bind(createDevice());
+            const acknowledged: Partial<DeviceStatus>[] = [];
+            device.on('commandAcknowledged', confirmed => acknowledged.push(confirmed));
+
+            device.cmd({SetTem: 31});
+            clock.tick(100);
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['SetTem'], p: [31], val: [30]}, {key});
+
+            assert.deepStrictEqual(acknowledged, [{SetTem: 30}]);
+        });
+
+        it('emits error when a command is dropped', () => {
+            const device = bind(createDevice());
+            const errors: Error[] = [];
+            device.on('error', error => errors.push(error));
+
+            device.cmd({Pow: 1});
+            clock.tick(100 + 3000);
+
+            assert.strictEqual(errors.length, 1);
+        });
+
+        it('does not emit error without listeners', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1});
+            assert.doesNotThrow(() => clock.tick(100 + 3000));
+        });
+    });
+
+    describe('recovery', () => {
+
+        const makeUnavailable = (device: GreeAirConditionerDevice): void => {
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+            for (let i = 0; i < 4; i++) {
+                device.getDeviceStatus();
+                clock.tick(1000);
+            }
+            socket.sent.length = 0;
+            device.getDeviceStatus();
+            clock.tick(1000);
+        };
+
+        const sentBinds = (): number => socket.sent.filter(s => s.message.t === 'pack' && s.message.i === 1).length;
+        const sentScans = (): SentMessage[] => socket.sent.filter(s => s.message.t === 'scan');
+
+        it('retries the first bind request with backoff until a bindok response is received', () => {
+            createDevice();
+            assert.strictEqual(sentBinds(), 1);
+
+            clock.tick(2000);
+            assert.strictEqual(sentBinds(), 2);
+            clock.tick(3999);
+            assert.strictEqual(sentBinds(), 2);
+            clock.tick(1);
+            assert.strictEqual(sentBinds(), 3);
+
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+            clock.tick(60000);
+            assert.strictEqual(sentBinds(), 3);
+        });
+
+        it('re-binds when the device becomes unavailable', () => {
+            const device = bind(createDevice());
+            makeUnavailable(device);
+
+            assert.strictEqual(device.isUnavailable(), true);
+            assert.strictEqual(sentBinds(), 1);
+        });
+
+        it('falls back to a rediscovery after the re-binds fail', () => {
+            const device = bind(createDevice());
+            makeUnavailable(device);
+
+            clock.tick(2000 + 4000);
+            assert.strictEqual(sentBinds(), 3);
+            assert.strictEqual(sentScans().length, 0);
+
+            clock.tick(8000);
+            assert.deepStrictEqual(sentScans().map(s => s.address), ['192.168.1.255', '192.168.1.10']);
+        });
+
+        it('stops when the device responds with a new key', () => {
+            const device = bind(createDevice());
+            makeUnavailable(device);
+
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key: 'Zz9Yy8Xx7Ww6Vv5U'});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [0]}, {key: 'Zz9Yy8Xx7Ww6Vv5U'});
+            socket.sent.length = 0;
+            clock.tick(60000);
+
+            assert.strictEqual(device.isUnavailable(), false);
+            assert.strictEqual(sentBinds(), 0);
+            assert.strictEqual(sentScans().length, 0);
+        });
+    });
+
+    describe('commands', () => {
+
+        const sentCommands = (): CmdPack[] => socket.sent
+            .filter(s => s.message.t === 'pack' && s.message.i === 0)
+            .map(s => crypto.decryptPack(s.message, key))
+            .filter(p => p.t === 'cmd');
+
+        const acknowledge = (pack: CmdPack): void =>
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: pack.opt, p: pack.p, val: pack.p}, {key});
+
+        it('sends a cmd request with the options and values', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1, Mod: 4});
+            clock.tick(100);
+
+            assert.deepStrictEqual(socket.lastPack(crypto, key), {t: 'cmd', opt: ['Pow', 'Mod'], p: [1, 4]});
+        });
+
+        it('merges the commands of the coalescing window', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1, SetTem: 21});
+            clock.tick(50);
+            device.cmd({SetTem: 22});
+            device.cmd({SetTem: 23});
+            clock.tick(50);
+
+            assert.deepStrictEqual(sentCommands(), [{t: 'cmd', opt: ['Pow', 'SetTem'], p: [1, 23]}]);
+        });
+
+        it('sends the next command after the res response', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1});
+            clock.tick(100);
+            device.cmd({SetTem: 22});
+            clock.tick(100);
+            assert.strictEqual(sentCommands().length, 1);
+
+            acknowledge(sentCommands()[0]);
+
+            assert.deepStrictEqual(sentCommands()[1], {t: 'cmd', opt: ['SetTem'], p: [22]});
+        });
+
+        it('retries an unacknowledged command', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1});
+            clock.tick(100 + 1000);
+
+            assert.deepStrictEqual(sentCommands(), [{t: 'cmd', opt: ['Pow'], p: [1]}, {t: 'cmd', opt: ['Pow'], p: [1]}]);
+        });
+
+        it('does not retry the columns set again in the meantime', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1, SetTem: 21});
+            clock.tick(100);
+            device.cmd({SetTem: 22});
+            clock.tick(1000);
+
+            assert.deepStrictEqual(sentCommands()[1], {t: 'cmd', opt: ['Pow'], p: [1]});
+
+            acknowledge(sentCommands()[1]);
+
+            assert.deepStrictEqual(sentCommands()[2], {t: 'cmd', opt: ['SetTem'], p: [22]});
+        });
+
+        it('accepts a late res response to an earlier attempt of a retried command', async () => {
+            const device = bind(createDevice());
+
+            const confirmed = device.setState({Pow: 1, SetTem: 21});
+            clock.tick(100);
+            device.cmd({SetTem: 22});
+            clock.tick(1000);
+            acknowledge(sentCommands()[0]);
+
+            assert.deepStrictEqual(sentCommands().slice(1), [{t: 'cmd', opt: ['Pow'], p: [1]}, {t: 'cmd', opt: ['SetTem'], p: [22]}]);
+            assert.deepStrictEqual(await confirmed, {Pow: 1, SetTem: 21});
+        });
+
+        it('does not accept a res response with other values', () => {
+            const device = bind(createDevice());
+
+            device.cmd({SetTem: 22});
+            clock.tick(100);
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['SetTem'], p: [21], val: [21]}, {key});
+            clock.tick(1000);
+
+            assert.strictEqual(sentCommands().length, 2);
+        });
+
+        it('drops a command after three attempts and logs it', () => {
+            const device = bind(createDevice());
+
+            device.cmd({Pow: 1});
+            clock.tick(100);
+            device.cmd({SetTem: 22});
+            clock.tick(3000);
+
+            assert.deepStrictEqual(sentCommands().map(p => p.opt), [['Pow'], ['Pow'], ['Pow'], ['SetTem']]);
+            assert.ok(logger.messages.some(m => m.level === 'warn' && m.message.startsWith('Dropped command')));
+        });
+
+        it('updates the status on a res response', () => {
+            const device = bind(createDevice());
+
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['Pow', 'Mod'], p: [1, 4], val: [1, 4]}, {key});
+
+            assert.strictEqual(device.getDeviceStatus().Pow, 1);
+            assert.strictEqual(device.getDeviceStatus().Mod, 4);
+            assert.strictEqual(refreshes, 1);
+        });
+
+        it('resolves setState with the values confirmed by the device', async () => {
+            const device = bind(createDevice());
+
+            const confirmed = device.setState({Pow: 1, SetTem: 31});
+            clock.tick(100);
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['Pow', 'SetTem'], p: [1, 31], val: [1, 30]}, {key});
+
+            assert.deepStrictEqual(await confirmed, {Pow: 1, SetTem: 30});
+        });
+
+        it('resolves setState once all its columns are confirmed', async () => {
+            const device = bind(createDevice());
+
+            const confirmed = device.setState({Pow: 1, SetTem: 21});
+            clock.tick(100);
+            device.cmd({SetTem: 22});
+            clock.tick(1000);
+            acknowledge(sentCommands()[1]);
+            acknowledge(sentCommands()[2]);
+
+            assert.deepStrictEqual(await confirmed, {Pow: 1, SetTem: 22});
+        });
+
+        it('rejects setState when the command is dropped', async () => {
+            const device = bind(createDevice());
+
+            const confirmed = device.setState({Pow: 1});
+            clock.tick(100 + 3000);
+
+            await assert.rejects(confirmed);
+        });
+
+        it('rejects setState when some of its columns are left without a command', async () => {
+            const device = bind(createDevice());
+
+            const confirmed = device.setState({Pow: 1});
+            device['pendingCommands'] = {};
+            clock.tick(100);
+
+            await assert.rejects(confirmed, /did not confirm Pow/);
+        });
+
+        it('ignores responses with a status other than 200', () => {
+            const device = bind(createDevice());
+
+            socket.reply(crypto, mac, {t: 'res', r: 400, mac, opt: ['Pow'], p: [1], val: [1]}, {key});
+
+            assert.strictEqual(device.getDeviceStatus().Pow, undefined);
+            assert.strictEqual(refreshes, 0);
+        });
+    });
+
+    describe('metrics', () => {
+
+        it('counts the requests and the responses', () => {
+            const device = bind(createDevice());
+
+            device.getDeviceStatus();
+            clock.tick(1000);
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+            device.cmd({Pow: 0});
+            clock.tick(100);
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['Pow'], p: [0], val: [0]}, {key});
+
+            const metrics: Readonly<DeviceMetrics> = device.getMetrics();
+
+            assert.deepStrictEqual([metrics.bindAttempts, metrics.statusRequests, metrics.datResponses], [1, 1, 1]);
+            assert.deepStrictEqual([metrics.commandsSent, metrics.commandsAcknowledged], [1, 1]);
+        });
+
+        it('measures the status round-trip latency', () => {
+            const device = bind(createDevice());
+
+            device.getDeviceStatus();
+            clock.tick(1020);
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+            const histogram: HistogramData = device.getMetrics().statusLatency;
+
+            assert.strictEqual(histogram.count, 1);
+            assert.strictEqual(histogram.sum, 0.02);
+            assert.deepStrictEqual(histogram.counts, [0, 1, 0, 0, 0, 0, 0, 0]);
+        });
+
+        it('counts the transitions to unavailable', () => {
+            const device = bind(createDevice());
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+            for (let i = 0; i < 10; i++) {
+                device.getDeviceStatus();
+                clock.tick(1000);
+            }
+
+            assert.strictEqual(device.getMetrics().unavailableTransitions, 1);
+        });
+    });
+
+});
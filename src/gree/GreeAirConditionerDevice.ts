@@ -2,6 +2,7 @@ import {RemoteInfo, Socket} from 'dgram';
 import {EventEmitter} from 'events';
 import {Logger} from 'homebridge';
 import {Crypto} from '../util/crypto';
+import {Histogram} from '../util/histogram';
 import {GreeAirConditionerCommands} from './GreeAirConditionerCommands';
 
 /**
@@ -17,12 +18,27 @@ export class GreeAirConditionerDevice {
      */
     private readonly refreshEventEmitter: EventEmitter = new EventEmitter();
 
+    /**
+     * {@link EventEmitter} object emitting a 'dat' event at every <i>dat</i> response, after it has been handled. Used
+     * by {@link refreshStatus}.
+     *
+     * @private
+     */
+    private readonly responseEventEmitter: EventEmitter = new EventEmitter().setMaxListeners(0);
+
+    /**
+     * {@link EventEmitter} object emitting the {@link DeviceEvents} (see {@link on}).
+     *
+     * @private
+     */
+    private readonly eventEmitter: EventEmitter = new EventEmitter().setMaxListeners(0);
+
     /**
      * {@link DeviceStatus} object representing the current device` status.
      *
      * @private
      */
-    private readonly deviceStatus: DeviceStatus = new DeviceStatus();
+    private readonly deviceStatus: DeviceStatus = <DeviceStatus>{};
 
 
     /**
@@ -31,6 +47,13 @@ export class GreeAirConditionerDevice {
      * @private
      */
     private lastGetDeviceStatus: number = Date.now();
+    /**
+     * Boolean representing whether the status is requested at every refresh, even if it was not read for five seconds
+     * (see {@link setContinuousRefresh}).
+     *
+     * @private
+     */
+    private continuousRefresh = false;
     /**
      * The symmetric key used for decryption and encryption.
      *
@@ -50,57 +73,186 @@ export class GreeAirConditionerDevice {
      * @private
      */
     private unrespondedStatusRequests: number = 0;
+    /**
+     * Timestamp of the last <i>status</i> request, used for measuring the status round-trip latency. It is reset when
+     * a <i>dat</i> response is received.
+     *
+     * @private
+     */
+    private statusRequestedAt: number | undefined;
+    /**
+     * Histogram of the status round-trip latency, in seconds.
+     *
+     * @private
+     */
+    private readonly statusLatency: Histogram = new Histogram(Histogram.latencyBuckets);
+    /**
+     * Counters and status latency of this device (see {@link getMetrics}).
+     *
+     * @private
+     */
+    private readonly metrics: DeviceMetrics = {
+        //@formatter:off
+        statusRequests:         0,
+        datResponses:           0,
+        commandsSent:           0,
+        commandsAcknowledged:   0,
+        bindAttempts:           0,
+        unavailableTransitions: 0,
+        statusLatency:          this.statusLatency
+        //@formatter:on
+    };
+    /**
+     * Timer emitting the 'refresh' events of the {@link refreshEventEmitter}. It is started at the first <i>bindok</i>
+     * response.
+     *
+     * @private
+     */
+    private refreshTimer: NodeJS.Timeout | undefined;
+    /**
+     * Timer of the next recovery step. It is defined only while the device is recovering (see {@link recover}).
+     *
+     * @private
+     */
+    private recoveryTimer: NodeJS.Timeout | undefined;
+    /**
+     * Number of recovery steps executed since the recovery started. It determines both the next step (re-bind or
+     * rediscovery) and the delay until it (exponential backoff).
+     *
+     * @private
+     */
+    private recoveryAttempts = 0;
+    /**
+     * Columns supported by the device, probed from the first <i>dat</i> response after binding: the status request
+     * asks for every column of {@link GreeAirConditionerCommands}, and the columns left out of the response (or
+     * reported with a non-numeric value) are unsupported. Units reporting 0 for an unsupported column are not detected.
+     * Undefined until the probe is done.
+     *
+     * @private
+     */
+    private capabilities: string[] | undefined;
+    /**
+     * Commands waiting to be sent, merged by column: a newer value of a column replaces the older one. They are sent
+     * as a single <i>cmd</i> request at the end of the coalescing window (see {@link commandCoalescingDelay}), or
+     * after the {@link inFlightCommand} is acknowledged or dropped.
+     *
+     * @private
+     */
+    private pendingCommands: Record<string, number> = {};
+    /**
+     * Callers of {@link setState} waiting for the {@link pendingCommands} to be confirmed.
+     *
+     * @private
+     */
+    private pendingWaiters: CommandWaiter[] = [];
+    /**
+     * Timer of the coalescing window of the {@link pendingCommands}.
+     *
+     * @private
+     */
+    private commandTimer: NodeJS.Timeout | undefined;
+    /**
+     * The <i>cmd</i> request which was sent and not acknowledged yet by a <i>res</i> response. Only one <i>cmd</i>
+     * request is in flight at a time.
+     *
+     * @private
+     */
+    private inFlightCommand: InFlightCommand | undefined;
+
+    /**
+     * Delay in milliseconds during which the commands are merged before being sent, so that a burst of commands (e.g.
+     * dragging the temperature slider) results in a single <i>cmd</i> request.
+     *
+     * @private
+     */
+    private static readonly commandCoalescingDelay: number = 100;
+    /**
+     * Time in milliseconds to wait for the <i>res</i> response of a <i>cmd</i> request before sending it again.
+     *
+     * @private
+     */
+    private static readonly commandTimeout: number = 1000;
+    /**
+     * Maximum number of times a <i>cmd</i> request is sent before it is dropped.
+     *
+     * @private
+     */
+    private static readonly maxCommandAttempts: number = 3;
+    /**
+     * Time in milliseconds to wait for the <i>dat</i> response requested by {@link refreshStatus}.
+     *
+     * @private
+     */
+    private static readonly statusTimeout: number = 3000;
+    /**
+     * Delay in milliseconds after the first recovery step. It doubles at every step, up to {@link maxRecoveryDelay}.
+     *
+     * @private
+     */
+    private static readonly baseRecoveryDelay: number = 2000;
+    /**
+     * Maximum delay in milliseconds between two consecutive recovery steps.
+     *
+     * @private
+     */
+    private static readonly maxRecoveryDelay: number = 60000;
+    /**
+     * Number of consecutive <i>bind</i> requests sent during the recovery before falling back to a rediscovery.
+     *
+     * @private
+     */
+    private static readonly rebindsBeforeRediscovery: number = 3;
 
 
     /**
      * Constructs a new {@link GreeAirConditionerDevice} and it initializes it by doing the following:
      * - it binds the {@link status} method to the 'refresh' event of the {@link refreshEventEmitter};
-     * - it binds the {@link handleResponse} method to the 'message' event of the {@link socket};
-     * - it executes the {@link bind} method.
+     * - it executes the {@link recover} method, which sends the first <i>bind</i> request and retries it until a
+     * <i>bindok</i> response is received.
+     * <br>
+     * The responses of the device are not read from the {@link socket} by the device itself, they are routed to
+     * {@link handleResponse} by the platform.
      *
      * @param config Configuration.
      * @param logger Logger to be used.
      * @param crypto Used for decryption and encryption.
-     * @param socket Used for sending and receiving data to and from the device.
+     * @param socket Used for sending data to the device.
      * @param deviceContext It contains information about the device (IP address or the MAC).
-     * @param refreshCallback Called after the status has been updated.
      */
     constructor(private readonly config: Config,
                 private readonly logger: Logger,
                 private readonly crypto: Crypto,
                 private readonly socket: Socket,
-                private readonly deviceContext: DeviceContext,
-                private readonly refreshCallback: () => void) {
+                private readonly deviceContext: DeviceContext) {
 
         this.refreshEventEmitter.on('refresh', () => {
-            if (this.lastGetDeviceStatus + 5000 > Date.now()) {
+            if (this.continuousRefresh || this.lastGetDeviceStatus + 5000 > Date.now()) {
                 this.status();
             }
         });
 
-        this.socket.on('message', buffer => {
-            const packMessage: PackMessage = JSON.parse(buffer.toString());
-
-            if (packMessage.cid === this.deviceContext.mac) {
-                this.handleResponse(packMessage);
-            }
-        });
-
-        this.bind();
+        this.recover();
     }
 
 
     /**
-     * Sends a scan request as a scan message type. The request is sent as a
-     * broadcast message to the local network.
+     * Sends a scan request as a scan message type. By default, the request is sent as a
+     * broadcast message to the local network. When an address is provided, the request
+     * is sent only to that address (used for probing statically configured devices).
      *
      * @param config Configuration.
      * @param socket {@link Socket} object to be used to send the message.
      *               The socket must be created and bound before executing this method.
      * @param logger Logger to be used.
+     * @param address The address to which the request is sent. Defaults to {@link Config.scanAddress}.
+     * @param port The port to which the request is sent. Defaults to {@link Config.scanPort}.
      */
-    public static scan(config: Config, logger: Logger, socket: Socket): void {
-        logger.debug("scan() --- Called");
+    public static scan(config: Config,
+                       logger: Logger,
+                       socket: Socket,
+                       address: string = config.scanAddress,
+                       port: number = config.scanPort): void {
+        logger.debug("scan() --- Called with parameters of interests: %s, %d", address, port);
 
         try {
             const scanMessage: ScanMessage = {
@@ -108,8 +260,8 @@ export class GreeAirConditionerDevice {
             };
             socket.send(
                 JSON.stringify(scanMessage),
-                config.scanPort,
-                config.scanAddress
+                port,
+                address
             );
         } catch (e: any) {
             logger.error(e);
@@ -124,24 +276,22 @@ export class GreeAirConditionerDevice {
      *
      * @param logger Logger to be used.
      * @param crypto {@link Crypto} object to be used to decrypt the encrypted dev pack.
-     * @param buffer Buffer containing the pack message.
+     * @param packMessage The pack message, already parsed.
      * @param remoteInfo Information about the remote which sent the dev response.
      * @param callback Called after integrity checks and decryption.
      */
     public static handleDevResponse(logger: Logger,
                                     crypto: Crypto,
-                                    buffer: Buffer,
+                                    packMessage: PackMessage,
                                     remoteInfo: RemoteInfo,
                                     callback: (deviceContext: DeviceContext) => void): void {
 
-        logger.debug("handleDevResponse() --- Called with parameters of interests: %j, %j", buffer, remoteInfo);
-        const packMessage = JSON.parse(buffer.toString());
-        logger.debug("handleDevResponse() --- Extracted pack message %j", packMessage);
+        logger.debug("handleDevResponse() --- Called with parameters of interests: %j, %j", packMessage, remoteInfo);
 
         if (packMessage.i === 1 && packMessage.tcid === '') {
 
             logger.debug("handleDevResponse() --- The response is a dev response");
-            const devPack: DevPack = crypto.decrypt(packMessage.pack);
+            const devPack: DevPack = crypto.decryptPack(packMessage);
             logger.debug("handleDevResponse() --- Decrypted pack %j", devPack);
 
             if (devPack.t === 'dev') {
@@ -149,12 +299,14 @@ export class GreeAirConditionerDevice {
                 logger.debug("handleDevResponse() --- Calling callback");
                 //@formatter:off
                 callback({
-                    mac:     devPack.mac,
-                    address: remoteInfo.address,
-                    brand:   devPack.brand,
-                    model:   devPack.model,
-                    name:    devPack.name,
-                    version: devPack.ver
+                    mac:      devPack.mac,
+                    address:  remoteInfo.address,
+                    brand:    devPack.brand,
+                    model:    devPack.model,
+                    name:     devPack.name,
+                    version:  devPack.ver,
+                    port:     undefined,
+                    protocol: GreeAirConditionerDevice.detectProtocolVersion(packMessage, devPack)
                 });
                 //@formatter:on
             }
@@ -163,6 +315,64 @@ export class GreeAirConditionerDevice {
         logger.debug("handleDevResponse() --- Returned void");
     }
 
+    /**
+     * Determines the {@link ProtocolVersion} used by a device from its <i>dev</i> response. The device uses version 2
+     * (AES-GCM) if the pack message carries a <i>tag</i> field or if the firmware version from
+     * {@link DevPack.ver} is 1.21 or newer. Otherwise, the device uses version 1 (AES-ECB).
+     *
+     * @param packMessage The pack message of the <i>dev</i> response.
+     * @param devPack The decrypted <i>dev</i> pack.
+     * @returns The {@link ProtocolVersion} used by the device.
+     */
+    public static detectProtocolVersion(packMessage: PackMessage, devPack: DevPack): ProtocolVersion {
+        if (packMessage.tag !== undefined) {
+            return 2;
+        }
+
+        const version: RegExpMatchArray | null = (devPack.ver || '').match(/(\d+)\.(\d+)/);
+
+        if (version) {
+            const major = Number(version[1]);
+            const minor = Number(version[2]);
+
+            if (major > 1 || (major === 1 && minor >= 21)) {
+                return 2;
+            }
+        }
+        return 1;
+    }
+
+
+    /**
+     * Adds a listener of one of the {@link DeviceEvents}:
+     * - <i>bound</i>, at every <i>bindok</i> response;
+     * - <i>statusChanged</i>, when a <i>dat</i> or a <i>res</i> response changes the status, with the old and the new
+     * values of the changed columns;
+     * - <i>availabilityChanged</i>, when the device becomes available or unavailable (see {@link isUnavailable});
+     * - <i>commandAcknowledged</i>, when a <i>cmd</i> request is acknowledged, with the values confirmed by the device;
+     * - <i>error</i>, when a request cannot be sent or a <i>cmd</i> request is dropped. The errors are logged anyway,
+     * so listening to this event is optional.
+     *
+     * @param event The event.
+     * @param listener The listener to be added.
+     * @returns This device, so that calls can be chained.
+     */
+    public on<E extends keyof DeviceEvents>(event: E, listener: DeviceEvents[E]): this {
+        this.eventEmitter.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Removes a listener added with {@link on}.
+     *
+     * @param event The event.
+     * @param listener The listener to be removed.
+     * @returns This device, so that calls can be chained.
+     */
+    public off<E extends keyof DeviceEvents>(event: E, listener: DeviceEvents[E]): this {
+        this.eventEmitter.off(event, listener);
+        return this;
+    }
 
     /**
      * Returns whether this device is available or not. After creation, the device is unavailable until the first
@@ -196,7 +406,106 @@ export class GreeAirConditionerDevice {
     }
 
     /**
-     * Sends a <i>cmd</i> request as a pack message. Example of {@link commands} parameter:
+     * Enables or disables the continuous refresh: when enabled, the status is requested every
+     * {@link Config.refreshInterval} milliseconds even if {@link getDeviceStatus} is not called. It is meant for the
+     * consumers which follow the <i>statusChanged</i> events instead of reading the status.
+     *
+     * @param enabled Whether the continuous refresh is enabled.
+     */
+    public setContinuousRefresh(enabled: boolean): void {
+        this.continuousRefresh = enabled;
+    }
+
+    /**
+     * Returns the information about the device. The returned object is updated in place when the device is
+     * rediscovered (e.g. with a new address).
+     *
+     * @returns {@link DeviceContext} object of the device.
+     */
+    public getDeviceContext(): DeviceContext {
+        return this.deviceContext;
+    }
+
+    /**
+     * Returns the key received in the <i>bindok</i> response, used for encrypting the requests to the device.
+     *
+     * @returns The key, or undefined if the device is not bound yet.
+     */
+    public getKey(): string | undefined {
+        return this.key;
+    }
+
+    /**
+     * Returns the columns supported by the device, as probed from the first status response after binding.
+     *
+     * @returns The columns supported by the device, or undefined if the device was not probed yet.
+     */
+    public getCapabilities(): string[] | undefined {
+        return this.capabilities;
+    }
+
+    /**
+     * Returns the counters of the requests and responses of the device, and the histogram of the status round-trip
+     * latency (from a <i>status</i> request to the next <i>dat</i> response), in seconds.
+     *
+     * @returns {@link DeviceMetrics} object of the device, updated in place.
+     */
+    public getMetrics(): Readonly<DeviceMetrics> {
+        return this.metrics;
+    }
+
+    /**
+     * Sets the state of the device and waits for the device to confirm it. The state is sent with {@link cmd}, so it
+     * is merged with the other commands of the coalescing window and retried until acknowledged.
+     *
+     * @param state The columns to be set and their values.
+     * @returns A promise resolved with the values confirmed by the <i>res</i> response of the device, or rejected if
+     * the <i>cmd</i> request is dropped after {@link maxCommandAttempts} unacknowledged attempts.
+     */
+    public setState(state: Partial<DeviceStatus>): Promise<Partial<DeviceStatus>> {
+        return new Promise((resolve, reject) => {
+            this.pendingWaiters.push({columns: Object.keys(state), confirmed: {}, resolve, reject});
+            this.cmd(state);
+        });
+    }
+
+    /**
+     * Requests the status of the device right away, without waiting for the next refresh.
+     *
+     * @returns A promise resolved with the status once the next <i>dat</i> response is handled, or rejected if no
+     * <i>dat</i> response is received within {@link statusTimeout} milliseconds.
+     */
+    public refreshStatus(): Promise<DeviceStatus> {
+        return new Promise((resolve, reject) => {
+            const listener = (): void => {
+                clearTimeout(timer);
+                resolve(this.deviceStatus);
+            };
+            const timer: NodeJS.Timeout = setTimeout(() => {
+                this.responseEventEmitter.off('dat', listener);
+                reject(new Error(`Device ${this.deviceContext.mac} did not respond to the status request`));
+            }, GreeAirConditionerDevice.statusTimeout);
+
+            this.responseEventEmitter.once('dat', listener);
+            this.status();
+        });
+    }
+
+    /**
+     * Waits for the device to be bound. The binding is retried until it succeeds (see {@link recover}), so the
+     * returned promise is never rejected, not even by the 'error' events emitted meanwhile (e.g. a failed send).
+     *
+     * @returns A promise resolved once the device is bound, right away if it is already bound.
+     */
+    public waitUntilBound(): Promise<void> {
+        if (this.key !== undefined) {
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => this.eventEmitter.once('bound', () => resolve()));
+    }
+
+    /**
+     * Queues commands to be sent as a <i>cmd</i> request. Example of {@link commands} parameter:
      * ```js
      * commands = {
      *     'Pow': 1,
@@ -205,23 +514,67 @@ export class GreeAirConditionerDevice {
      *     'SwUpDn': 2
      * };
      * ```
+     * The commands are merged with the other {@link pendingCommands} and sent after the coalescing window (see
+     * {@link commandCoalescingDelay}). Each <i>cmd</i> request is sent again until the device acknowledges it with a
+     * <i>res</i> response, at most {@link maxCommandAttempts} times, and the next one is sent only after that.
      *
      * @param commands Object containing the commands to be executed by the device to achieve the desired state.
      */
     public cmd(commands: any): void {
-        this.logger.debug("cmd() --- Called");
+        this.logger.debug("cmd() --- Called with parameter %j", commands);
 
-        const cmdPack: CmdPack = {
-            t: 'cmd',
-            opt: Object.keys(commands),
-            p: Object.keys(commands).map(k => commands[k])
-        };
-        this.sendRequest(cmdPack);
+        Object.assign(this.pendingCommands, commands);
+
+        if (this.commandTimer === undefined && this.inFlightCommand === undefined) {
+            this.commandTimer = setTimeout(() => this.flushCommands(), GreeAirConditionerDevice.commandCoalescingDelay);
+        }
 
         this.logger.debug("cmd() --- Returned void");
     }
 
 
+    /**
+     * Decrypts encrypted pack from the pack message (using the cipher indicated by the pack message), and if the
+     * response` status is 200 (OK), it calls one of the following based on the type of the pack:
+     * {@link handleBindOkResponse}, {@link handleDatResponse}, {@link handleResResponse}.
+     *
+     * @param packMessage Object containing the message from the device.
+     */
+    public handleResponse(packMessage: PackMessage): void {
+        this.logger.debug("handleResponse() --- Called with parameter %j", packMessage);
+
+        const pack: ResponsePack = this.crypto.decryptPack(packMessage, packMessage.i === 1 ? undefined : this.key);
+
+        this.logger.debug("handleResponse() --- Decrypted pack %j", pack);
+
+        if (pack.r === 200) {
+            switch (pack.t) {
+                //@formatter:off
+                case 'bindok': this.handleBindOkResponse(<BindOkPack>pack); break;
+                case 'dat':    this.handleDatResponse(<DatPack>pack);       break;
+                case 'res':    this.handleResResponse(<ResPack>pack);       break;
+                //@formatter:on
+            }
+        }
+
+        this.logger.debug("handleResponse() --- Returned void");
+    }
+
+    /**
+     * Sends a new <i>bind</i> request. Used when the {@link ProtocolVersion} or the address of the device changes after
+     * the first <i>bind</i> request was sent (e.g. a statically configured device whose <i>dev</i> response arrives
+     * later, or a device which got a new address from DHCP). The current key is used until the <i>bindok</i> response
+     * replaces it.
+     */
+    public rebind(): void {
+        this.logger.debug("rebind() --- Called");
+
+        this.bind();
+
+        this.logger.debug("rebind() --- Returned void");
+    }
+
+
     /**
      * Sends a <i>bind</i> request as a pack message.
      *
@@ -236,6 +589,7 @@ export class GreeAirConditionerDevice {
             mac: this.deviceContext.mac
         };
         this.sendRequest(bindPack);
+        ++this.metrics.bindAttempts;
 
         this.logger.debug("bind() --- Returned void");
     }
@@ -249,7 +603,9 @@ export class GreeAirConditionerDevice {
         this.logger.debug("status() --- Called");
 
         if (this.unrespondedStatusRequests++ === 4) {
-            this.unavailable = true;
+            this.logger.warn("Device %s (%s) stopped responding", this.deviceContext.name, this.deviceContext.mac);
+            this.setUnavailable(true);
+            this.recover();
         }
 
         const statusPack: StatusPack = {
@@ -258,12 +614,205 @@ export class GreeAirConditionerDevice {
             cols: Object.keys(GreeAirConditionerCommands).map(k => GreeAirConditionerCommands[k].code)
         };
         this.sendRequest(statusPack);
+        this.statusRequestedAt = Date.now();
+        ++this.metrics.statusRequests;
 
         this.logger.debug("status() --- Returned void");
     }
 
     /**
-     * Sends a request as a pack message.
+     * Sends the {@link pendingCommands} as a single <i>cmd</i> request, which becomes the {@link inFlightCommand}. If
+     * there is nothing to send, the {@link pendingWaiters} are completed: the ones with columns which were never
+     * confirmed (e.g. left out of the <i>res</i> response) are rejected.
+     *
+     * @private
+     */
+    private flushCommands(): void {
+        this.commandTimer = undefined;
+
+        const opt: string[] = Object.keys(this.pendingCommands);
+
+        if (opt.length === 0) {
+            this.pendingWaiters.splice(0).forEach((waiter: CommandWaiter) => {
+                const unconfirmed: string[] = waiter.columns.filter(col => !(col in waiter.confirmed));
+
+                if (unconfirmed.length === 0) {
+                    waiter.resolve(waiter.confirmed);
+                } else {
+                    waiter.reject(new Error(`Device ${this.deviceContext.mac} did not confirm ${unconfirmed.join(', ')}`));
+                }
+            });
+            return;
+        }
+
+        const cmdPack: CmdPack = {
+            t: 'cmd',
+            opt: opt,
+            p: opt.map(col => this.pendingCommands[col])
+        };
+        this.pendingCommands = {};
+        this.inFlightCommand = {pack: cmdPack, attempts: 0, timer: undefined, waiters: this.pendingWaiters.splice(0)};
+        this.sendCommand(this.inFlightCommand);
+    }
+
+    /**
+     * Sends the <i>cmd</i> request of an {@link InFlightCommand} and waits {@link commandTimeout} milliseconds for its
+     * <i>res</i> response. If the response is not received in time, the request is sent again, without the columns
+     * which were set again in the meantime (their newer values are in the {@link pendingCommands}). After
+     * {@link maxCommandAttempts} attempts, the request is dropped.
+     *
+     * @param command The command to be sent.
+     * @private
+     */
+    private sendCommand(command: InFlightCommand): void {
+        this.sendRequest(command.pack);
+        ++command.attempts;
+        ++this.metrics.commandsSent;
+
+        command.timer = setTimeout(() => {
+            if (command.attempts >= GreeAirConditionerDevice.maxCommandAttempts) {
+                const error: Error = new Error(
+                    `Device ${this.deviceContext.mac} did not acknowledge the command after ${command.attempts} attempts`
+                );
+
+                this.logger.warn("Dropped command %j to device %s (%s) after %d attempts",
+                    command.pack, this.deviceContext.name, this.deviceContext.mac, command.attempts);
+                this.completeCommand(undefined, error);
+                this.emit('error', error);
+                return;
+            }
+
+            const opt: string[] = command.pack.opt.filter(col => !(col in this.pendingCommands));
+
+            if (opt.length === 0) {
+                this.logger.debug("sendCommand() --- Command %j superseded by %j", command.pack, this.pendingCommands);
+                this.completeCommand();
+                return;
+            }
+
+            this.logger.debug("sendCommand() --- Retrying unacknowledged command %j", command.pack);
+            command.pack = {t: 'cmd', opt: opt, p: opt.map(col => command.pack.p[command.pack.opt.indexOf(col)])};
+            this.sendCommand(command);
+        }, GreeAirConditionerDevice.commandTimeout);
+    }
+
+    /**
+     * Completes the {@link inFlightCommand} and sends the {@link pendingCommands}. The waiters of the command are:
+     * - rejected, if the command is dropped;
+     * - resolved, if the <i>res</i> response confirms all their columns;
+     * - moved to the {@link pendingWaiters} otherwise, as their other columns were set again in the meantime.
+     *
+     * @param pack The <i>res</i> response acknowledging the command, if any.
+     * @param error The reason for which the command is dropped, if it is dropped.
+     * @private
+     */
+    private completeCommand(pack?: ResPack, error?: Error): void {
+        const command: InFlightCommand | undefined = this.inFlightCommand;
+
+        if (command === undefined) {
+            return;
+        }
+        if (command.timer !== undefined) {
+            clearTimeout(command.timer);
+        }
+        this.inFlightCommand = undefined;
+
+        command.waiters.forEach((waiter: CommandWaiter) => {
+            if (error) {
+                waiter.reject(error);
+                return;
+            }
+
+            (pack?.opt || []).forEach((col: string, i: number) => {
+                if (waiter.columns.includes(col)) {
+                    waiter.confirmed[col] = (pack!.val || pack!.p)[i];
+                }
+            });
+
+            if (waiter.columns.every(col => col in waiter.confirmed)) {
+                waiter.resolve(waiter.confirmed);
+            } else {
+                this.pendingWaiters.push(waiter);
+            }
+        });
+        this.flushCommands();
+    }
+
+    /**
+     * Starts the recovery of the device, unless it is already recovering. The recovery is a sequence of steps executed
+     * with exponential backoff (starting at {@link baseRecoveryDelay}, up to {@link maxRecoveryDelay}):
+     * - {@link rebindsBeforeRediscovery} <i>bind</i> requests, for devices which rebooted and forgot the key;
+     * - one rediscovery, for devices which got a new address: a broadcast <i>scan</i> request and one sent to the last
+     * known address. The <i>dev</i> response is handled by the platform, which updates the address in the
+     * {@link DeviceContext} by MAC and persists it in the cached accessory.
+     * <br>
+     * The sequence is repeated until a <i>bindok</i> or a <i>dat</i> response is received (see {@link stopRecovery}).
+     *
+     * @private
+     */
+    private recover(): void {
+        if (this.recoveryTimer !== undefined) {
+            return;
+        }
+
+        this.logger.debug("recover() --- Called");
+
+        this.recoveryAttempts = 0;
+        this.recoveryStep();
+
+        this.logger.debug("recover() --- Returned void");
+    }
+
+    /**
+     * Executes one step of the recovery and schedules the next one.
+     *
+     * @private
+     */
+    private recoveryStep(): void {
+        const rediscover: boolean = this.recoveryAttempts % (GreeAirConditionerDevice.rebindsBeforeRediscovery + 1) ===
+            GreeAirConditionerDevice.rebindsBeforeRediscovery;
+
+        if (rediscover) {
+            this.logger.debug("recoveryStep() --- Rediscovering device %s", this.deviceContext.mac);
+
+            GreeAirConditionerDevice.scan(this.config, this.logger, this.socket);
+            GreeAirConditionerDevice.scan(
+                this.config,
+                this.logger,
+                this.socket,
+                this.deviceContext.address,
+                this.deviceContext.port || this.config.scanPort
+            );
+        } else {
+            this.bind();
+        }
+
+        const delay: number = Math.min(
+            GreeAirConditionerDevice.baseRecoveryDelay * Math.pow(2, this.recoveryAttempts++),
+            GreeAirConditionerDevice.maxRecoveryDelay
+        );
+        this.recoveryTimer = setTimeout(() => this.recoveryStep(), delay);
+    }
+
+    /**
+     * Stops the recovery of the device, if it is recovering.
+     *
+     * @private
+     */
+    private stopRecovery(): void {
+        if (this.recoveryTimer === undefined) {
+            return;
+        }
+
+        if (this.recoveryAttempts > 1) {
+            this.logger.info("Device %s (%s) recovered", this.deviceContext.name, this.deviceContext.mac);
+        }
+        clearTimeout(this.recoveryTimer);
+        this.recoveryTimer = undefined;
+    }
+
+    /**
+     * Sends a request as a pack message. <i>bind</i> requests are always encrypted with the generic key.
      *
      * @param requestPack Object containing the data.
      *                    It can be either a {@link BindPack}, {@link StatusPack} or a {@link CmdPack}.
@@ -273,21 +822,23 @@ export class GreeAirConditionerDevice {
         this.logger.debug("sendRequest() --- Called with parameter %j", requestPack);
 
         try {
+            const key: string | undefined = requestPack.t === 'bind' ? undefined : this.key;
             const packMessage: PackMessage = {
                 t: 'pack',
-                i: this.key === undefined ? 1 : 0,
+                i: key === undefined ? 1 : 0,
                 uid: 0,
                 cid: 'app',
                 tcid: this.deviceContext.mac,
-                pack: this.crypto.encrypt(requestPack, this.key)
+                ...this.crypto.encryptPack(requestPack, this.deviceContext.protocol || 1, key)
             };
             this.socket.send(
                 JSON.stringify(packMessage),
-                this.config.port,
+                this.deviceContext.port || this.config.port,
                 this.deviceContext.address
             );
         } catch (e: any) {
             this.logger.error(e);
+            this.emit('error', e);
         }
 
         this.logger.debug("sendRequest() --- Returned void");
@@ -295,36 +846,8 @@ export class GreeAirConditionerDevice {
 
 
     /**
-     * Decrypts encrypted pack from the pack message, and if the response` status is 200 (OK),
-     * it calls one of the following based on the type of the pack:
-     * {@link handleBindOkResponse}, {@link handleDatResponse}, {@link handleResResponse}.
-     *
-     * @param packMessage Object containing the message from the device.
-     * @private
-     */
-    private handleResponse(packMessage: PackMessage): void {
-        this.logger.debug("handleResponse() --- Called with parameter %j", packMessage);
-
-        const pack: ResponsePack = this.crypto.decrypt(packMessage.pack, this.key);
-
-        this.logger.debug("handleResponse() --- Decrypted pack %j", pack);
-
-        if (pack.r === 200) {
-            switch (pack.t) {
-                //@formatter:off
-                case 'bindok': this.handleBindOkResponse(<BindOkPack>pack); break;
-                case 'dat':    this.handleDatResponse(<DatPack>pack);       break;
-                case 'res':    this.handleResResponse(<ResPack>pack);       break;
-                //@formatter:on
-            }
-        }
-
-        this.logger.debug("handleResponse() --- Returned void");
-    }
-
-    /**
-     * It handles a <i>bindok</i> response by setting the key and configuring {@link refreshEventEmitter}
-     * to emit 'refresh' events.
+     * It handles a <i>bindok</i> response by setting the key, stopping the recovery and configuring
+     * {@link refreshEventEmitter} to emit 'refresh' events.
      *
      * @param pack {@link BindOkPack} object containing the data.
      * @private
@@ -333,16 +856,25 @@ export class GreeAirConditionerDevice {
         this.logger.debug("handleBindOkResponse() --- Called with parameter %j", pack);
 
         this.key = pack.key;
-        setInterval(
-            () => this.refreshEventEmitter.emit('refresh'),
-            this.config.refreshInterval
-        );
+        this.capabilities = undefined;
+        this.stopRecovery();
+        if (this.refreshTimer === undefined) {
+            this.refreshTimer = setInterval(
+                () => this.refreshEventEmitter.emit('refresh'),
+                this.config.refreshInterval
+            );
+        }
+        this.emit('bound');
 
         this.logger.debug("handleBindOkResponse() --- Returned void");
     }
 
     /**
-     * It handles a <i>dat</i> response by updating the cached status.
+     * It handles a <i>dat</i> response by updating the cached status. Columns which are not supported by the device
+     * are either left out of the response or reported with a non-numeric value (e.g. an empty string); the latter are
+     * ignored, so unsupported columns stay undefined in the cached status.
+     * <br>
+     * The first <i>dat</i> response after binding is used for probing the {@link capabilities} of the device.
      *
      * @param pack {@link DatPack} object containing the data.
      * @private
@@ -350,19 +882,32 @@ export class GreeAirConditionerDevice {
     private handleDatResponse(pack: DatPack): void {
         this.logger.debug("handleDatResponse() --- Called with parameter %j", pack);
 
-        this.unavailable = false;
         this.unrespondedStatusRequests = 0;
+        this.stopRecovery();
 
-        pack.cols.forEach((col: string, i: number) => {
-            this.deviceStatus[col] = pack.dat[i];
-        });
-        this.refreshCallback();
+        ++this.metrics.datResponses;
+        if (this.statusRequestedAt !== undefined) {
+            this.statusLatency.observe((Date.now() - this.statusRequestedAt) / 1000);
+            this.statusRequestedAt = undefined;
+        }
+
+        const diff: StatusDiff = this.updateStatus(pack.cols, pack.dat);
+
+        if (this.capabilities === undefined) {
+            this.capabilities = pack.cols.filter((col: string, i: number) => typeof pack.dat[i] === 'number');
+            this.logger.debug("handleDatResponse() --- Probed capabilities %j", this.capabilities);
+        }
+        this.setUnavailable(false);
+        this.emitStatusChanged(diff);
+        this.responseEventEmitter.emit('dat');
 
         this.logger.debug("handleDatResponse() --- Returned void");
     }
 
     /**
-     * It handles a <i>res</i> response by updating the cached status.
+     * It handles a <i>res</i> response by updating the cached status. If the response acknowledges the
+     * {@link inFlightCommand} (see {@link isAcknowledgedBy}), the command is completed and the {@link pendingCommands}
+     * are sent.
      *
      * @param pack {@link ResPack} object containing the data.
      * @private
@@ -370,12 +915,100 @@ export class GreeAirConditionerDevice {
     private handleResResponse(pack: ResPack): void {
         this.logger.debug("handleResResponse() --- Called with parameter %j", pack);
 
-        pack.opt.forEach((col: string, i: number) => {
-            this.deviceStatus[col] = (pack.val || pack.p)[i];
-        });
-        this.refreshCallback();
+        const values: number[] = pack.val || pack.p;
+
+        this.emitStatusChanged(this.updateStatus(pack.opt, values));
+
+        const command: InFlightCommand | undefined = this.inFlightCommand;
+
+        if (command && this.isAcknowledgedBy(command, pack)) {
+            this.logger.debug("handleResResponse() --- Acknowledged command %j", command.pack);
+            ++this.metrics.commandsAcknowledged;
+            this.emit('commandAcknowledged', pack.opt.reduce((confirmed, col, i) => ({...confirmed, [col]: values[i]}), {}));
+            this.completeCommand(pack);
+        }
 
         this.logger.debug("handleResResponse() --- Returned void");
     }
 
+    /**
+     * Checks whether a <i>res</i> response acknowledges a command: the response must echo every column of the command
+     * with the same value. The response may have more columns, e.g. a late response to an earlier attempt which still
+     * included the columns set again in the meantime (see {@link sendCommand}).
+     *
+     * @param command The command.
+     * @param pack {@link ResPack} object containing the data.
+     * @returns Whether the response acknowledges the command.
+     * @private
+     */
+    private isAcknowledgedBy(command: InFlightCommand, pack: ResPack): boolean {
+        return command.pack.opt.every((col: string, i: number) =>
+            pack.opt.includes(col) && pack.p[pack.opt.indexOf(col)] === command.pack.p[i]);
+    }
+
+    /**
+     * Updates the cached status with the values of some columns. Non-numeric values (reported for unsupported columns)
+     * are ignored.
+     *
+     * @param cols The columns.
+     * @param values The values of the columns.
+     * @returns The changes of the status.
+     * @private
+     */
+    private updateStatus(cols: string[], values: number[]): StatusDiff {
+        const diff: StatusDiff = {};
+
+        cols.forEach((col: string, i: number) => {
+            if (typeof values[i] === 'number' && this.deviceStatus[col] !== values[i]) {
+                diff[col] = {old: this.deviceStatus[col], new: values[i]};
+                this.deviceStatus[col] = values[i];
+            }
+        });
+        return diff;
+    }
+
+    /**
+     * Emits a <i>statusChanged</i> event, unless there are no changes.
+     *
+     * @param diff The changes of the status.
+     * @private
+     */
+    private emitStatusChanged(diff: StatusDiff): void {
+        if (Object.keys(diff).length > 0) {
+            this.logger.debug("emitStatusChanged() --- Status changed %j", diff);
+            this.emit('statusChanged', diff);
+        }
+    }
+
+    /**
+     * Sets whether this device is available or not, and emits an <i>availabilityChanged</i> event if it changed.
+     *
+     * @param unavailable Whether this device is unavailable.
+     * @private
+     */
+    private setUnavailable(unavailable: boolean): void {
+        if (this.unavailable !== unavailable) {
+            this.unavailable = unavailable;
+            if (unavailable) {
+                ++this.metrics.unavailableTransitions;
+            }
+            this.emit('availabilityChanged', !unavailable);
+        }
+    }
+
+    /**
+     * Emits one of the {@link DeviceEvents}. <i>error</i> events are emitted only if they are listened to, as an
+     * {@link EventEmitter} throws the errors nobody listens to.
+     *
+     * @param event The event.
+     * @param args The arguments of the listeners.
+     * @private
+     */
+    private emit<E extends keyof DeviceEvents>(event: E, ...args: Parameters<DeviceEvents[E]>): void {
+        if (event === 'error' && this.eventEmitter.listenerCount('error') === 0) {
+            return;
+        }
+        this.eventEmitter.emit(event, ...args);
+    }
+
 }
\ No newline at end of file
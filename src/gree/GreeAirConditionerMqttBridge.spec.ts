@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import {EventEmitter} from 'events';
+import {AddressInfo, createServer, Server} from 'net';
+import Aedes from 'aedes';
+import * as mqtt from 'mqtt';
+import {MqttClient} from 'mqtt';
+import {createDeviceContext, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+import {GreeAirConditionerMqttBridge} from './GreeAirConditionerMqttBridge';
+
+/**
+ * Stand-in for the {@link GreeAirConditionerDevice} methods used by the bridge, so that the bridge can run with real
+ * timers against the local broker.
+ */
+class FakeDevice extends EventEmitter {
+
+    public status: Partial<DeviceStatus> = {};
+    public unavailable = false;
+    public continuousRefresh = false;
+    public readonly commands: Partial<DeviceStatus>[] = [];
+
+    public asDevice(): GreeAirConditionerDevice {
+        return <GreeAirConditionerDevice><unknown>this;
+    }
+
+    public getDeviceContext(): DeviceContext {
+        return createDeviceContext();
+    }
+
+    public getDeviceStatus(): Partial<DeviceStatus> {
+        return this.status;
+    }
+
+    public isUnavailable(): boolean {
+        return this.unavailable;
+    }
+
+    public setContinuousRefresh(enabled: boolean): void {
+        this.continuousRefresh = enabled;
+    }
+
+    public cmd(commands: Partial<DeviceStatus>): void {
+        this.commands.push(commands);
+    }
+
+}
+
+describe('GreeAirConditionerMqttBridge', () => {
+
+    const mac = 'f4911e000001';
+
+    let broker: Aedes;
+    let server: Server;
+    let url: string;
+    let logger: MockLogger;
+    let device: FakeDevice;
+    let bridge: GreeAirConditionerMqttBridge;
+    let client: MqttClient;
+    let messages: Record<string, string>;
+
+    const waitFor = async (condition: () => boolean): Promise<void> => {
+        for (let i = 0; !condition(); i++) {
+            assert.ok(i < 200, 'Timed out');
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    };
+
+    const startBridge = async (config: Partial<MqttConfig> = {}): Promise<void> => {
+        //@formatter:off
+        bridge = new GreeAirConditionerMqttBridge({
+            url,
+            username:               undefined,
+            password:               undefined,
+            prefix:                 undefined,
+            homeAssistantDiscovery: undefined,
+            discoveryPrefix:        undefined,
+            ...config,
+        }, logger.asLogger());
+        //@formatter:on
+        bridge.start();
+        bridge.addDevice(device.asDevice());
+        await waitFor(() => bridge['client']?.connected === true);
+    };
+
+    beforeEach(async () => {
+        broker = new Aedes();
+        server = createServer(broker.handle);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `mqtt://127.0.0.1:${(<AddressInfo>server.address()).port}`;
+
+        logger = new MockLogger();
+        device = new FakeDevice();
+        device.status = {Pow: 1, Mod: 1, SetTem: 24};
+
+        messages = {};
+        client = mqtt.connect(url);
+        client.on('message', (topic: string, payload: Buffer) => messages[topic] = payload.toString());
+        await new Promise(resolve => client.once('connect', resolve));
+        await new Promise(resolve => client.subscribe('#', resolve));
+    });
+
+    afterEach(async () => {
+        await bridge.stop();
+        await new Promise(resolve => client.end(true, {}, resolve));
+        await new Promise<void>(resolve => broker.close(() => resolve()));
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('publishes the availability and the decoded status of the devices', async () => {
+        await startBridge();
+        await waitFor(() => messages[`gree/${mac}/status`] !== undefined);
+
+        assert.strictEqual(messages['gree/availability'], 'online');
+        assert.strictEqual(messages[`gree/${mac}/availability`], 'online');
+        assert.deepStrictEqual(JSON.parse(messages[`gree/${mac}/status`]), {power: 'on', mode: 'cool', targetTemperature: 24});
+        assert.strictEqual(device.continuousRefresh, true);
+    });
+
+    it('publishes the changes of status and availability', async () => {
+        await startBridge({prefix: 'home/ac'});
+        await waitFor(() => messages[`home/ac/${mac}/status`] !== undefined);
+
+        device.status = {Pow: 0, Mod: 1, SetTem: 24};
+        device.unavailable = true;
+        device.emit('statusChanged', {Pow: {old: 1, new: 0}});
+        device.emit('availabilityChanged', false);
+        await waitFor(() => messages[`home/ac/${mac}/availability`] === 'offline');
+
+        assert.strictEqual(JSON.parse(messages[`home/ac/${mac}/status`]).power, 'off');
+    });
+
+    it('forwards the commands of the set topics to the device', async () => {
+        await startBridge();
+
+        client.publish(`gree/${mac}/set`, '{"power": true, "mode": "cool"}');
+        client.publish(`gree/${mac}/set/targetTemperature`, '24');
+        client.publish(`gree/${mac}/set/speed`, 'high');
+        await waitFor(() => device.commands.length === 3);
+
+        assert.deepStrictEqual(device.commands, [{Pow: 1, Mod: 1}, {SetTem: 24}, {WdSpd: 5}]);
+    });
+
+    it('ignores invalid commands', async () => {
+        await startBridge();
+
+        client.publish(`gree/${mac}/set`, '[1]');
+        client.publish(`gree/${mac}/set/mode`, 'warm');
+        client.publish(`gree/${mac}/set/temperatureSensor`, '20');
+        await waitFor(() => logger.messages.filter(m => m.level === 'warn').length === 3);
+
+        assert.deepStrictEqual(device.commands, []);
+    });
+
+    it('publishes the Home Assistant discovery configuration if enabled', async () => {
+        await startBridge({homeAssistantDiscovery: true});
+        await waitFor(() => messages[`homeassistant/climate/gree_${mac}/config`] !== undefined);
+
+        const config = JSON.parse(messages[`homeassistant/climate/gree_${mac}/config`]);
+
+        assert.strictEqual(config.unique_id, `gree_${mac}`);
+        assert.strictEqual(config.mode_command_topic, `gree/${mac}/set`);
+        assert.strictEqual(config.temperature_command_topic, `gree/${mac}/set/targetTemperature`);
+    });
+
+    it('marks the bridge offline and disables the continuous refresh when stopped', async () => {
+        await startBridge();
+        await bridge.stop();
+        await waitFor(() => messages['gree/availability'] === 'offline');
+
+        assert.strictEqual(device.continuousRefresh, false);
+    });
+
+});
@@ -0,0 +1,291 @@
+import * as mqtt from 'mqtt';
+import {MqttClient} from 'mqtt';
+import {Logger} from 'homebridge';
+import {Status} from '../util/status';
+import {GreeAirConditionerCommands} from './GreeAirConditionerCommands';
+import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+
+/**
+ * MQTT client publishing the state of the devices and accepting commands, for the home automation systems which do not
+ * go through HomeKit (e.g. Home Assistant or Node-RED). The topics are under {@link MqttConfig.prefix} (<i>gree</i> by
+ * default):
+ * - <i>{prefix}/availability</i> is <i>online</i> while the bridge is connected and <i>offline</i> otherwise;
+ * - <i>{prefix}/{mac}/availability</i> is <i>online</i> or <i>offline</i>, following the availability of a device;
+ * - <i>{prefix}/{mac}/status</i> is the status of a device decoded by {@link Status.decode}, as a JSON object;
+ * - <i>{prefix}/{mac}/set</i> accepts a JSON object with the names of {@link GreeAirConditionerCommands} (e.g.
+ * <i>{"mode": "cool", "targetTemperature": 24}</i>);
+ * - <i>{prefix}/{mac}/set/{command}</i> accepts the value of a single command (e.g. <i>cool</i> on
+ * <i>gree/{mac}/set/mode</i>).
+ * <br>
+ * The availability and status topics are retained. If {@link MqttConfig.homeAssistantDiscovery} is enabled, a climate
+ * entity is announced for every device under {@link MqttConfig.discoveryPrefix}.
+ */
+export class GreeAirConditionerMqttBridge {
+
+    /**
+     * Delay in milliseconds between the attempts to reconnect to the broker.
+     *
+     * @private
+     */
+    private static readonly reconnectPeriod: number = 5000;
+
+    private readonly prefix: string = this.config.prefix || 'gree';
+    private readonly devices: GreeAirConditionerDevice[] = [];
+    private client: MqttClient | undefined;
+
+
+    /**
+     * @param config Configuration of the MQTT bridge.
+     * @param logger Logger to be used.
+     */
+    constructor(private readonly config: MqttConfig,
+                private readonly logger: Logger) {
+    }
+
+
+    /**
+     * Connects to the broker at {@link MqttConfig.url}. The connection is retried until {@link stop} is called; at every
+     * connection, the state of all the devices is published again.
+     */
+    public start(): void {
+        this.client = mqtt.connect(this.config.url, {
+            username: this.config.username,
+            password: this.config.password,
+            reconnectPeriod: GreeAirConditionerMqttBridge.reconnectPeriod,
+            will: {topic: `${this.prefix}/availability`, payload: 'offline', qos: 1, retain: true},
+        });
+
+        this.client.on('connect', this.handleConnect.bind(this));
+        this.client.on('message', this.handleMessage.bind(this));
+        this.client.on('error', (e: Error) => this.logger.error('MQTT bridge error: %s', e.message));
+    }
+
+    /**
+     * Marks the bridge offline and disconnects from the broker. The continuous refresh of the devices is disabled.
+     *
+     * @returns A promise resolved once disconnected.
+     */
+    public stop(): Promise<void> {
+        const client: MqttClient | undefined = this.client;
+
+        this.devices.forEach(device => device.setContinuousRefresh(false));
+        if (client === undefined) {
+            return Promise.resolve();
+        }
+        this.client = undefined;
+
+        return new Promise(resolve => {
+            if (!client.connected) {
+                client.end(true, {}, () => resolve());
+                return;
+            }
+            client.publish(`${this.prefix}/availability`, 'offline', {qos: 1, retain: true}, () =>
+                client.end(false, {}, () => resolve()));
+        });
+    }
+
+    /**
+     * Adds a device to the bridge: its status and availability are published at every change, and the commands sent to
+     * its <i>set</i> topics are forwarded to it. The continuous refresh of the device is enabled (see
+     * {@link GreeAirConditionerDevice.setContinuousRefresh}) until the bridge is stopped, since nothing else may read
+     * its status.
+     *
+     * @param device The device.
+     */
+    public addDevice(device: GreeAirConditionerDevice): void {
+        this.devices.push(device);
+
+        device.setContinuousRefresh(true);
+        device
+            .on('statusChanged', () => this.publishStatus(device))
+            .on('availabilityChanged', () => this.publishAvailability(device));
+
+        if (this.client?.connected) {
+            this.publishDevice(device);
+        }
+    }
+
+
+    /**
+     * Marks the bridge online, subscribes to the <i>set</i> topics and publishes the state of all the devices.
+     *
+     * @private
+     */
+    private handleConnect(): void {
+        this.logger.info('MQTT bridge connected to %s', this.config.url);
+
+        this.publish(`${this.prefix}/availability`, 'online');
+        this.client?.subscribe([`${this.prefix}/+/set`, `${this.prefix}/+/set/+`], {qos: 1});
+        this.devices.forEach(device => this.publishDevice(device));
+    }
+
+    /**
+     * Forwards a command received on a <i>set</i> topic to its device. Commands of unknown devices and invalid commands
+     * are logged and dropped.
+     *
+     * @param topic The topic of the message.
+     * @param payload The payload of the message.
+     * @private
+     */
+    private handleMessage(topic: string, payload: Buffer): void {
+        this.logger.debug('handleMessage() --- Called with parameters of interests: %s, %s', topic, payload);
+
+        const levels: string[] = topic.substring(this.prefix.length + 1).split('/');
+        const device: GreeAirConditionerDevice | undefined = this.devices.find(d => d.getDeviceContext().mac === levels[0]);
+
+        if (device === undefined) {
+            this.logger.debug('handleMessage() --- Dropped command of unknown device %s', levels[0]);
+            return;
+        }
+
+        let state: Partial<DeviceStatus>;
+        try {
+            state = Status.encode(levels.length === 2
+                ? GreeAirConditionerMqttBridge.parseObject(payload)
+                : {[levels[2]]: GreeAirConditionerMqttBridge.parseValue(payload)});
+        } catch (e) {
+            this.logger.warn('Ignored invalid MQTT command on %s: %s', topic, (<Error>e).message);
+            return;
+        }
+
+        if (Object.keys(state).length > 0) {
+            device.cmd(state);
+        }
+    }
+
+    /**
+     * Publishes the discovery configuration (if enabled), the availability and the status of a device.
+     *
+     * @private
+     */
+    private publishDevice(device: GreeAirConditionerDevice): void {
+        if (this.config.homeAssistantDiscovery) {
+            this.publish(
+                `${this.config.discoveryPrefix || 'homeassistant'}/climate/gree_${device.getDeviceContext().mac}/config`,
+                JSON.stringify(this.getDiscoveryConfig(device)),
+            );
+        }
+        this.publishAvailability(device);
+        this.publishStatus(device);
+    }
+
+    /**
+     * Publishes the decoded status of a device, unless no status was received yet.
+     *
+     * @private
+     */
+    private publishStatus(device: GreeAirConditionerDevice): void {
+        const status: DeviceStatus = device.getDeviceStatus();
+
+        if (Object.keys(status).length > 0) {
+            this.publish(`${this.prefix}/${device.getDeviceContext().mac}/status`, JSON.stringify(Status.decode(status)));
+        }
+    }
+
+    /**
+     * Publishes the availability of a device.
+     *
+     * @private
+     */
+    private publishAvailability(device: GreeAirConditionerDevice): void {
+        this.publish(`${this.prefix}/${device.getDeviceContext().mac}/availability`, device.isUnavailable() ? 'offline' : 'online');
+    }
+
+    /**
+     * Publishes a retained message, if connected. Otherwise, the message is dropped: the state is published again at the
+     * next connection.
+     *
+     * @private
+     */
+    private publish(topic: string, payload: string): void {
+        if (this.client?.connected) {
+            this.client.publish(topic, payload, {qos: 1, retain: true});
+        }
+    }
+
+    /**
+     * Builds the Home Assistant discovery configuration of the climate entity of a device. Home Assistant has no fan
+     * mode, so the <i>fan</i> mode of the device is mapped to <i>fan_only</i>, and the power is mapped to the
+     * <i>off</i> mode.
+     *
+     * @private
+     */
+    private getDiscoveryConfig(device: GreeAirConditionerDevice): object {
+        const deviceContext: DeviceContext = device.getDeviceContext();
+        const topic = `${this.prefix}/${deviceContext.mac}`;
+
+        //@formatter:off
+        return {
+            name:                         null,
+            unique_id:                    `gree_${deviceContext.mac}`,
+            device: {
+                identifiers:  [`gree_${deviceContext.mac}`],
+                name:         deviceContext.name,
+                manufacturer: 'Gree',
+                model:        deviceContext.model,
+                sw_version:   deviceContext.version,
+            },
+            availability:                 [{topic: `${this.prefix}/availability`}, {topic: `${topic}/availability`}],
+            availability_mode:            'all',
+            modes:                        ['off', 'auto', 'cool', 'dry', 'fan_only', 'heat'],
+            mode_state_topic:             `${topic}/status`,
+            mode_state_template:          '{% if value_json.power == "off" %}off' +
+                                          '{% elif value_json.mode == "fan" %}fan_only' +
+                                          '{% else %}{{ value_json.mode }}{% endif %}',
+            mode_command_topic:           `${topic}/set`,
+            mode_command_template:        '{% if value == "off" %}{"power": "off"}' +
+                                          '{% else %}{"power": "on", "mode": "{{ "fan" if value == "fan_only" else value }}"}' +
+                                          '{% endif %}',
+            temperature_unit:             'C',
+            min_temp:                     Status.ranges.targetTemperature.min,
+            max_temp:                     Status.ranges.targetTemperature.max,
+            precision:                    1,
+            temp_step:                    1,
+            temperature_state_topic:      `${topic}/status`,
+            temperature_state_template:   '{{ value_json.targetTemperature }}',
+            temperature_command_topic:    `${topic}/set/targetTemperature`,
+            temperature_command_template: '{{ value | int }}',
+            current_temperature_topic:    `${topic}/status`,
+            current_temperature_template: '{{ value_json.temperatureSensor }}',
+            fan_modes:                    Object.keys(GreeAirConditionerCommands.speed.value),
+            fan_mode_state_topic:         `${topic}/status`,
+            fan_mode_state_template:      '{{ value_json.speed }}',
+            fan_mode_command_topic:       `${topic}/set/speed`,
+            swing_modes:                  ['on', 'off'],
+            swing_mode_state_topic:       `${topic}/status`,
+            swing_mode_state_template:    '{{ "on" if value_json.swingUpDown == "full" else "off" }}',
+            swing_mode_command_topic:     `${topic}/set/swingUpDown`,
+            swing_mode_command_template:  '{{ "full" if value == "on" else "default" }}',
+        };
+        //@formatter:on
+    }
+
+    /**
+     * Parses the payload of a <i>{prefix}/{mac}/set</i> message, which must be a JSON object.
+     *
+     * @private
+     */
+    private static parseObject(payload: Buffer): Record<string, unknown> {
+        const parsed: unknown = JSON.parse(payload.toString());
+
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('Expected a JSON object');
+        }
+        return <Record<string, unknown>>parsed;
+    }
+
+    /**
+     * Parses the payload of a <i>{prefix}/{mac}/set/{command}</i> message: JSON values (numbers, booleans or strings)
+     * are parsed, anything else is taken as a plain string (e.g. <i>cool</i>).
+     *
+     * @private
+     */
+    private static parseValue(payload: Buffer): unknown {
+        try {
+            return JSON.parse(payload.toString());
+        } catch (e) {
+            return payload.toString();
+        }
+    }
+
+}
@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {Crypto} from '../util/crypto';
+import {FakeSocket} from '../test/FakeSocket';
+import {createConfig, createPlatform, MockApi, MockLogger} from '../test/homebridge';
+
+describe('GreeAirConditionerPlatform', () => {
+
+    const crypto: Crypto = new Crypto();
+    const mac = 'f4911e000001';
+    const devPack = {t: 'dev', mac, brand: 'gree', model: 'GWH12', name: 'AC', ver: 'V1.2.1'};
+
+    let clock: FakeTimers.InstalledClock;
+    let socket: FakeSocket;
+    let api: MockApi;
+
+    const launch = (config: Partial<Config> = {}): void => {
+        createPlatform(createConfig(config), api, new MockLogger(), socket);
+        api.emit('didFinishLaunching');
+    };
+
+    beforeEach(() => {
+        clock = FakeTimers.install();
+        socket = new FakeSocket();
+        api = new MockApi();
+    });
+
+    afterEach(() => clock.uninstall());
+
+    describe('discovery', () => {
+
+        it('binds the socket to the configured port', () => {
+            launch({port: 7002});
+
+            assert.strictEqual(socket.boundPort, 7002);
+        });
+
+        it('scans until the maximum number of retries is reached', () => {
+            launch({scanInterval: 1000, scanMaxRetries: 3});
+            clock.tick(10000);
+
+            const scans = socket.sent.filter(s => s.message.t === 'scan');
+            assert.strictEqual(scans.length, 4);
+            scans.forEach(scan => assert.deepStrictEqual(scan, {message: {t: 'scan'}, port: 7000, address: '192.168.1.255'}));
+        });
+
+        it('registers a discovered device and binds to it', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: '', address: '192.168.1.20'});
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.mac, mac);
+            assert.strictEqual(api.registered[0].context.device.address, '192.168.1.20');
+            assert.strictEqual(api.registered[0].context.device.model, 'GWH12');
+            assert.deepStrictEqual(socket.lastPack(crypto), {t: 'bind', uid: 0, mac});
+            assert.strictEqual(socket.sent[socket.sent.length - 1].address, '192.168.1.20');
+        });
+
+        it('updates and persists the address of a known device and binds to the new address', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: '', address: '192.168.1.20'});
+            socket.reply(crypto, mac, devPack, {tcid: '', address: '192.168.1.21'});
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.address, '192.168.1.21');
+            assert.ok(api.updated.includes(api.registered[0]));
+            assert.deepStrictEqual(socket.lastPack(crypto), {t: 'bind', uid: 0, mac});
+            assert.strictEqual(socket.sent[socket.sent.length - 1].address, '192.168.1.21');
+        });
+
+        it('does not persist the device context when it does not change', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+
+            assert.deepStrictEqual(api.updated, []);
+        });
+
+        it('registers a device only once', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+
+            assert.strictEqual(api.registered.length, 1);
+        });
+    });
+
+    describe('background rediscovery', () => {
+
+        const scans = (): number => socket.sent.filter(s => s.message.t === 'scan').length;
+
+        it('keeps scanning at the rediscovery interval after the initial scans', () => {
+            launch({scanInterval: 1000, scanMaxRetries: 3, rediscoveryInterval: 60000});
+            clock.tick(4000);
+            assert.strictEqual(scans(), 4);
+
+            clock.tick(59999);
+            assert.strictEqual(scans(), 4);
+            clock.tick(1);
+            assert.strictEqual(scans(), 5);
+            clock.tick(60000);
+            assert.strictEqual(scans(), 6);
+        });
+
+        it('is disabled when the rediscovery interval is 0', () => {
+            launch({scanInterval: 1000, scanMaxRetries: 3, rediscoveryInterval: 0});
+            clock.tick(600000);
+
+            assert.strictEqual(scans(), 4);
+        });
+
+        it('registers devices which answer later and refreshes the metadata of the known ones', () => {
+            launch({rediscoveryInterval: 60000});
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+            clock.tick(120000);
+
+            socket.reply(crypto, 'f4911e000002', {...devPack, mac: 'f4911e000002'}, {tcid: ''});
+            socket.reply(crypto, mac, {...devPack, ver: 'V1.3.0'}, {tcid: ''});
+
+            assert.strictEqual(api.registered.length, 2);
+            assert.strictEqual(api.registered[0].context.device.version, 'V1.3.0');
+            assert.deepStrictEqual(api.updated, [api.registered[0]]);
+        });
+
+        it('probes the static devices as well', () => {
+            launch({rediscoveryInterval: 60000, devices: [<DeviceConfig>{mac, address: '10.0.20.15'}]});
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key: 'Ab1Cd2Ef3Gh4Ij5K'});
+            clock.tick(4000);
+            socket.sent.length = 0;
+            clock.tick(60000);
+
+            assert.deepStrictEqual(socket.sent.filter(s => s.message.t === 'scan').map(s => s.address), ['192.168.1.255', '10.0.20.15']);
+        });
+    });
+
+    describe('message routing', () => {
+
+        const key = 'Ab1Cd2Ef3Gh4Ij5K';
+
+        it('routes the responses to the device matching the cid', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+            socket.reply(crypto, 'f4911e000002', {...devPack, mac: 'f4911e000002'}, {tcid: ''});
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+            clock.tick(1000);
+
+            const statusRequests = socket.sent.filter(s => s.message.t === 'pack' && s.message.i === 0);
+            assert.strictEqual(statusRequests.length, 1);
+            assert.strictEqual(statusRequests[0].message.tcid, mac);
+        });
+
+        it('drops malformed messages without throwing', () => {
+            const logger: MockLogger = new MockLogger();
+            createPlatform(createConfig(), api, logger, socket);
+            api.emit('didFinishLaunching');
+
+            assert.doesNotThrow(() => socket.receive('{"t":"pack","i":1,'));
+            assert.doesNotThrow(() => socket.receive({t: 'pack', cid: mac}));
+            assert.doesNotThrow(() => socket.receive({t: 'pack', i: 1, uid: 0, cid: mac, tcid: '', pack: 'bm90IGVuY3J5cHRlZA=='}));
+            assert.ok(logger.messages.some(m => m.level === 'warn'));
+        });
+
+        it('drops responses of unknown devices', () => {
+            launch();
+
+            assert.doesNotThrow(() => socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key}));
+        });
+
+        it('drops responses which cannot be decrypted', () => {
+            launch();
+            socket.reply(crypto, mac, devPack, {tcid: ''});
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+
+            assert.doesNotThrow(() => socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: [], dat: []}, {key: 'wR0nGk3y-wR0nGk3'}));
+        });
+    });
+
+    describe('static devices', () => {
+
+        const devices = [<DeviceConfig>{mac: 'F4:91:1E:00:00:01', address: '10.0.20.15', name: 'Living Room', port: 7001}];
+
+        it('registers the device without waiting for the scan and probes it', () => {
+            launch({devices});
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.mac, mac);
+            assert.strictEqual(api.registered[0].context.device.name, 'Living Room');
+            assert.ok(socket.sent.some(s => s.message.t === 'scan' && s.address === '10.0.20.15' && s.port === 7001));
+        });
+
+        it('merges the scan response into the static device', () => {
+            launch({devices});
+            socket.reply(crypto, mac, devPack, {tcid: '', address: '10.0.20.15'});
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.model, 'GWH12');
+            assert.strictEqual(api.registered[0].context.device.name, 'Living Room');
+            assert.strictEqual(api.registered[0].context.device.port, 7001);
+        });
+
+        it('only overrides the settings of a discovered device when the address is not configured', () => {
+            launch({devices: [<DeviceConfig>{mac, name: 'Living Room'}], rediscoveryInterval: 60000});
+            clock.tick(120000);
+
+            assert.strictEqual(api.registered.length, 0);
+            assert.ok(socket.sent.every(s => s.address === '192.168.1.255'));
+
+            socket.reply(crypto, mac, devPack, {tcid: '', address: '192.168.1.20'});
+
+            assert.strictEqual(api.registered.length, 1);
+            assert.strictEqual(api.registered[0].context.device.name, 'Living Room');
+            assert.strictEqual(api.registered[0].context.device.address, '192.168.1.20');
+            assert.strictEqual(api.registered[0].context.device.port, undefined);
+        });
+    });
+
+});
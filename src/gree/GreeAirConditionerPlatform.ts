@@ -12,6 +12,8 @@ import {
 import {Crypto} from '../util/crypto';
 import {GreeAirConditionerAccessory} from './GreeAirConditionerAccessory';
 import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+import {GreeAirConditionerMqttBridge} from './GreeAirConditionerMqttBridge';
+import {GreeAirConditionerRestApi} from './GreeAirConditionerRestApi';
 import {PLATFORM_NAME, PLUGIN_NAME} from '../settings';
 
 export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
@@ -25,6 +27,9 @@ export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
 
     private scanTimer: NodeJS.Timeout | undefined;
     private scanCount: number = 0;
+    private rediscoveryTimer: NodeJS.Timeout | undefined;
+    private restApi: GreeAirConditionerRestApi | undefined;
+    private mqttBridge: GreeAirConditionerMqttBridge | undefined;
 
     private readonly devices: Record<string, PlatformAccessory> = {};
     private readonly greeAcDevices: Record<string, GreeAirConditionerAccessory> = {};
@@ -33,21 +38,19 @@ export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
     constructor(public readonly logger: Logger,
                 public readonly platformConfig: PlatformConfig,
                 public readonly api: API) {
-        this.config = platformConfig.options;
+        this.config = <Config><unknown>platformConfig;
 
         this.api.on('didFinishLaunching', () => {
 
-            this.socket.on('message', (buffer: Buffer, remoteInfo: RemoteInfo) =>
-                GreeAirConditionerDevice.handleDevResponse(
-                    this.logger,
-                    this.crypto,
-                    buffer,
-                    remoteInfo,
-                    this.registerDevice
-                )
-            );
+            this.socket.on('message', this.handleMessage.bind(this));
             this.socket.on('error', (err: Error) => this.logger.error(err.message));
+            this.startMqttBridge();
             this.scanForDevices();
+            this.startRestApi();
+        });
+        this.api.on('shutdown', () => {
+            this.restApi?.stop();
+            this.mqttBridge?.stop();
         });
     }
 
@@ -57,9 +60,78 @@ export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
     }
 
 
+    /**
+     * Single entry point for all the datagrams received on the shared {@link socket}. Each datagram is parsed once,
+     * checked to be a pack message and then routed either to the discovery (<i>dev</i> responses) or to the
+     * {@link GreeAirConditionerDevice} whose MAC matches the <i>cid</i> of the pack message. Malformed datagrams,
+     * datagrams which cannot be decrypted and datagrams of unknown devices are logged and dropped.
+     *
+     * @param buffer Buffer containing the datagram.
+     * @param remoteInfo Information about the remote which sent the datagram.
+     * @private
+     */
+    private handleMessage(buffer: Buffer, remoteInfo: RemoteInfo): void {
+        this.logger.debug("handleMessage() --- Called with parameters of interests: %s, %j", buffer, remoteInfo);
+
+        let message: unknown;
+        try {
+            message = JSON.parse(buffer.toString());
+        } catch (e: any) {
+            this.logger.warn("Dropped malformed message from %s:%d", remoteInfo.address, remoteInfo.port);
+            return;
+        }
+
+        if (!GreeAirConditionerPlatform.isPackMessage(message)) {
+            this.logger.debug("handleMessage() --- Dropped message which is not a pack message %j", message);
+            return;
+        }
+
+        try {
+            if (message.i === 1 && message.tcid === '') {
+                GreeAirConditionerDevice.handleDevResponse(
+                    this.logger,
+                    this.crypto,
+                    message,
+                    remoteInfo,
+                    this.registerDevice.bind(this)
+                );
+                return;
+            }
+
+            const accessory: PlatformAccessory | undefined = this.devices[message.cid];
+            const greeAcDevice: GreeAirConditionerAccessory | undefined =
+                accessory && this.greeAcDevices[accessory.UUID];
+
+            if (greeAcDevice) {
+                greeAcDevice.device.handleResponse(message);
+            } else {
+                this.logger.debug("handleMessage() --- Dropped message of unknown device %s", message.cid);
+            }
+        } catch (e: any) {
+            this.logger.warn("Dropped invalid message from %s:%d (%s)", remoteInfo.address, remoteInfo.port, e.message);
+        }
+    }
+
+    /**
+     * Checks whether a parsed datagram has the shape of a {@link PackMessage}.
+     *
+     * @param message The parsed datagram.
+     * @returns Whether the datagram is a {@link PackMessage}.
+     * @private
+     */
+    private static isPackMessage(message: any): message is PackMessage {
+        return typeof message === 'object' && message !== null &&
+            message.t === 'pack' &&
+            typeof message.cid === 'string' &&
+            typeof message.tcid === 'string' &&
+            typeof message.pack === 'string' &&
+            (message.tag === undefined || typeof message.tag === 'string');
+    }
+
     private scanForDevices(): void {
         try {
             this.socket.bind(this.config.port, () => {
+                this.registerStaticDevices();
 
                 this.scanTimer = setInterval(() => {
                     GreeAirConditionerDevice.scan(this.config, this.logger, this.socket);
@@ -68,6 +140,7 @@ export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
                     if (this.scanCount > this.config.scanMaxRetries &&
                         this.scanTimer) {
                         clearInterval(this.scanTimer);
+                        this.startRediscovery();
                     }
                 }, this.config.scanInterval);
             });
@@ -76,19 +149,176 @@ export class GreeAirConditionerPlatform implements DynamicPlatformPlugin {
         }
     }
 
+    /**
+     * Starts the {@link GreeAirConditionerRestApi}, if {@link Config.restApi} is configured.
+     *
+     * @private
+     */
+    private startRestApi(): void {
+        if (!this.config.restApi?.port) {
+            return;
+        }
+
+        this.restApi = new GreeAirConditionerRestApi(this.config.restApi, this.logger, this.getDevices.bind(this));
+        this.restApi.start().catch((e: Error) => this.logger.error("Cannot start the REST API: %s", e.message));
+    }
+
+    /**
+     * Starts the {@link GreeAirConditionerMqttBridge}, if {@link Config.mqtt} is configured. The devices are added to
+     * the bridge as they are registered.
+     *
+     * @private
+     */
+    private startMqttBridge(): void {
+        if (!this.config.mqtt?.url) {
+            return;
+        }
+
+        this.mqttBridge = new GreeAirConditionerMqttBridge(this.config.mqtt, this.logger);
+        this.mqttBridge.start();
+    }
+
+    /**
+     * Starts the background rediscovery, which keeps scanning for devices every {@link Config.rediscoveryInterval}
+     * milliseconds after the initial scans are done. New devices are registered and the metadata of the known ones
+     * (name, version, address) is refreshed through {@link registerDevice}. The rediscovery is disabled if the
+     * interval is not set or it is 0.
+     *
+     * @private
+     */
+    private startRediscovery(): void {
+        if (!this.config.rediscoveryInterval || this.rediscoveryTimer) {
+            return;
+        }
+
+        this.rediscoveryTimer = setInterval(() => {
+            GreeAirConditionerDevice.scan(this.config, this.logger, this.socket);
+            this.probeStaticDevices();
+        }, this.config.rediscoveryInterval);
+    }
+
+    /**
+     * Registers every device from {@link Config.devices} which has an address without waiting for it to answer the
+     * broadcast scan, and then sends a unicast scan request to each of them so that the metadata reported by the device
+     * (brand, model, version) replaces the placeholders through {@link registerDevice}.
+     *
+     * @private
+     */
+    private registerStaticDevices(): void {
+        this.getStaticDeviceConfigs().forEach((deviceConfig: StaticDeviceConfig) => {
+            const mac: string = GreeAirConditionerPlatform.normalizeMac(deviceConfig.mac);
+            const cachedDeviceContext: DeviceContext | undefined = this.devices[mac]?.context.device;
+
+            //@formatter:off
+            this.registerDevice({
+                mac:      mac,
+                address:  deviceConfig.address,
+                brand:    cachedDeviceContext?.brand   || 'gree',
+                model:    cachedDeviceContext?.model   || 'gree',
+                name:     cachedDeviceContext?.name    || mac,
+                version:  cachedDeviceContext?.version || '',
+                port:     deviceConfig.port,
+                protocol: cachedDeviceContext?.protocol
+            });
+            //@formatter:on
+        });
+        this.probeStaticDevices();
+    }
+
+    /**
+     * Sends a unicast scan request to every device from {@link Config.devices} which has an address.
+     *
+     * @private
+     */
+    private probeStaticDevices(): void {
+        this.getStaticDeviceConfigs().forEach((deviceConfig: StaticDeviceConfig) =>
+            GreeAirConditionerDevice.scan(
+                this.config,
+                this.logger,
+                this.socket,
+                deviceConfig.address,
+                deviceConfig.port || this.config.scanPort
+            )
+        );
+    }
+
+    /**
+     * Registers a device, either discovered by scanning or configured statically. Devices are merged by MAC: if the
+     * device is already registered, its context is updated in place, otherwise a new accessory is created (or the
+     * cached one is reused). Values configured in the matching {@link DeviceConfig} (address, name, port and protocol)
+     * take precedence over the ones reported by the device.
+     *
+     * @param deviceContext Information about the device.
+     * @private
+     */
     private registerDevice(deviceContext: DeviceContext): void {
+        const deviceConfig: DeviceConfig | undefined = this.getDeviceConfig(deviceContext.mac);
+
+        if (deviceConfig) {
+            deviceContext.address = deviceConfig.address || deviceContext.address;
+            deviceContext.name = deviceConfig.name || deviceContext.name;
+            deviceContext.port = deviceConfig.port || deviceContext.port;
+            deviceContext.protocol = deviceConfig.protocol || deviceContext.protocol;
+        }
+
         let accessory = this.devices[deviceContext.mac];
 
-        if (accessory === null) {
-            accessory = new this.api.platformAccessory(deviceContext.mac, this.api.hap.uuid.generate(deviceContext.mac));
+        if (accessory === undefined) {
+            accessory = new this.api.platformAccessory(deviceContext.name, this.api.hap.uuid.generate(deviceContext.mac));
+            accessory.context.device = deviceContext;
 
             this.devices[deviceContext.mac] = accessory;
             this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
         }
-        if (accessory && this.greeAcDevices[accessory.UUID] === null) {
+        if (this.greeAcDevices[accessory.UUID] === undefined) {
             accessory.context.device = deviceContext;
             this.greeAcDevices[accessory.UUID] = new GreeAirConditionerAccessory(this, accessory);
+            this.restApi?.addDevice(this.greeAcDevices[accessory.UUID].device);
+            this.mqttBridge?.addDevice(this.greeAcDevices[accessory.UUID].device);
+        } else if (this.greeAcDevices[accessory.UUID].updateDeviceContext(deviceContext)) {
+            this.api.updatePlatformAccessories([accessory]);
         }
     }
 
+    /**
+     * Returns the devices registered so far, discovered or configured statically.
+     *
+     * @returns The {@link GreeAirConditionerDevice} objects of the registered devices.
+     */
+    public getDevices(): GreeAirConditionerDevice[] {
+        return Object.keys(this.greeAcDevices).map(uuid => this.greeAcDevices[uuid].device);
+    }
+
+    /**
+     * Returns the {@link DeviceConfig} of a device, if the device is configured in {@link Config.devices}.
+     *
+     * @param mac MAC address of the device, in the format used by the devices.
+     * @returns The {@link DeviceConfig} of the device, or undefined if the device is not configured.
+     */
+    public getDeviceConfig(mac: string): DeviceConfig | undefined {
+        return (this.config.devices || []).find(d => GreeAirConditionerPlatform.normalizeMac(d.mac) === mac);
+    }
+
+    /**
+     * Returns the entries of {@link Config.devices} which have an address. The other entries only override the settings
+     * of the devices found by scanning, so they are neither registered statically nor probed.
+     *
+     * @returns The {@link StaticDeviceConfig} objects.
+     * @private
+     */
+    private getStaticDeviceConfigs(): StaticDeviceConfig[] {
+        return (this.config.devices || []).filter((d): d is StaticDeviceConfig => !!d.address);
+    }
+
+    /**
+     * Converts a MAC address to the format used by the devices: lowercase, without separators.
+     *
+     * @param mac MAC address to be converted.
+     * @returns The converted MAC address.
+     * @private
+     */
+    private static normalizeMac(mac: string): string {
+        return mac.replace(/[:-]/g, '').toLowerCase();
+    }
+
 }
\ No newline at end of file
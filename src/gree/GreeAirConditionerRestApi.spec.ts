@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {Crypto} from '../util/crypto';
+import {FakeSocket} from '../test/FakeSocket';
+import {createConfig, createDeviceContext, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+import {GreeAirConditionerRestApi} from './GreeAirConditionerRestApi';
+
+describe('GreeAirConditionerRestApi', () => {
+
+    const crypto: Crypto = new Crypto();
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    describe('requests', () => {
+
+        let clock: FakeTimers.InstalledClock;
+        let socket: FakeSocket;
+        let device: GreeAirConditionerDevice;
+
+        const createApi = (token?: string): GreeAirConditionerRestApi =>
+            new GreeAirConditionerRestApi({port: 8080, address: undefined, token}, new MockLogger().asLogger(), () => [device]);
+
+        const sendStatus = (status: Partial<DeviceStatus>): void => {
+            const cols: string[] = Object.keys(status);
+
+            socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols, dat: cols.map(col => status[col])}, {key});
+        };
+
+        beforeEach(() => {
+            clock = FakeTimers.install();
+            socket = new FakeSocket();
+            device = new GreeAirConditionerDevice(
+                createConfig(),
+                new MockLogger().asLogger(),
+                crypto,
+                socket.asSocket(),
+                createDeviceContext(),
+            );
+            socket.on('message', (buffer: Buffer) => device.handleResponse(JSON.parse(buffer.toString())));
+            socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+        });
+
+        afterEach(() => clock.uninstall());
+
+        it('lists the devices with their availability', async () => {
+            const response = await createApi().handle('GET', '/devices', undefined, '');
+
+            assert.deepStrictEqual(response, {status: 200, body: [{...createDeviceContext(), available: false}]});
+        });
+
+        it('returns the decoded status of a device once it responds', async () => {
+            sendStatus({Pow: 1, Mod: 1, SetTem: 24});
+
+            const response = createApi().handle('GET', '/devices/F4:91:1E:00:00:01/status', undefined, '');
+            sendStatus({Pow: 1, Mod: 1, SetTem: 25});
+
+            assert.deepStrictEqual(await response, {status: 200, body: {power: 'on', mode: 'cool', targetTemperature: 25}});
+        });
+
+        it('responds with 503 for the status of an unavailable device', async () => {
+            const response = await createApi().handle('GET', `/devices/${mac}/status`, undefined, '');
+
+            assert.strictEqual(response.status, 503);
+        });
+
+        it('sets a valid state on the device and returns the confirmed values', async () => {
+            sendStatus({Pow: 0});
+
+            const response = createApi().handle('PATCH', `/devices/${mac}/status`, undefined,
+                '{"power": true, "mode": "cool", "targetTemperature": 24}');
+            await clock.tickAsync(100);
+
+            assert.deepStrictEqual(socket.lastPack(crypto, key), {t: 'cmd', opt: ['Pow', 'Mod', 'SetTem'], p: [1, 1, 24]});
+            socket.reply(crypto, mac, {t: 'res', r: 200, mac, opt: ['Pow', 'Mod', 'SetTem'], p: [1, 1, 24], val: [1, 1, 24]}, {key});
+
+            assert.deepStrictEqual(await response, {status: 200, body: {power: 'on', mode: 'cool', targetTemperature: 24}});
+        });
+
+        it('responds with 504 if the device does not acknowledge the state', async () => {
+            sendStatus({Pow: 0});
+
+            const response = createApi().handle('PATCH', `/devices/${mac}/status`, undefined, '{"power": true}');
+            await clock.tickAsync(100 + 3000);
+
+            assert.strictEqual((await response).status, 504);
+        });
+
+        it('rejects an invalid state', async () => {
+            sendStatus({Pow: 0});
+            const api = createApi();
+
+            for (const body of ['{"mode": "warm"}', '{"targetTemperature": 40}', '{"temperatureSensor": 20}', '{"foo": 1}', '[]', '{']) {
+                assert.strictEqual((await api.handle('PATCH', `/devices/${mac}/status`, undefined, body)).status, 400, body);
+            }
+        });
+
+        it('serves the metrics in the Prometheus text format', async () => {
+            sendStatus({Pow: 1});
+
+            const response = await createApi().handle('GET', '/metrics', undefined, '');
+
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(response.contentType, 'text/plain; version=0.0.4');
+            assert.ok((<string>response.body).includes(`gree_power{mac="${mac}",name="Living Room"} 1`));
+        });
+
+        it('responds with 404 for unknown devices and paths', async () => {
+            const api = createApi();
+
+            assert.strictEqual((await api.handle('GET', '/devices/f4911e000002', undefined, '')).status, 404);
+            assert.strictEqual((await api.handle('GET', '/status', undefined, '')).status, 404);
+        });
+
+        it('requires the bearer token if configured', async () => {
+            const api = createApi('s3cr3t');
+
+            assert.strictEqual((await api.handle('GET', '/devices', undefined, '')).status, 401);
+            assert.strictEqual((await api.handle('GET', '/devices', 'Bearer wrong', '')).status, 401);
+            assert.strictEqual((await api.handle('GET', '/devices', 'Bearer s3cr3t', '')).status, 200);
+        });
+    });
+
+    describe('HTTP server', () => {
+
+        it('serves JSON responses', async () => {
+            const api = new GreeAirConditionerRestApi(
+                {port: 0, address: '127.0.0.1', token: undefined}, new MockLogger().asLogger(), () => []);
+            await api.start();
+
+            try {
+                const port: number = (<AddressInfo>api['server'].address()).port;
+                const body: string = await new Promise((resolve, reject) => {
+                    http.get({host: '127.0.0.1', port, path: '/devices'}, response => {
+                        let data = '';
+                        response.on('data', chunk => data += chunk);
+                        response.on('end', () => resolve(data));
+                    }).on('error', reject);
+                });
+
+                assert.deepStrictEqual(JSON.parse(body), []);
+            } finally {
+                await api.stop();
+            }
+        });
+
+        it('listens on the loopback address by default', async () => {
+            const api = new GreeAirConditionerRestApi(
+                {port: 0, address: undefined, token: undefined}, new MockLogger().asLogger(), () => []);
+            await api.start();
+
+            try {
+                assert.strictEqual((<AddressInfo>api['server'].address()).address, '127.0.0.1');
+            } finally {
+                await api.stop();
+            }
+        });
+
+        it('does not listen on other addresses than the loopback ones without a token', async () => {
+            const api = new GreeAirConditionerRestApi(
+                {port: 0, address: '0.0.0.0', token: undefined}, new MockLogger().asLogger(), () => []);
+
+            await assert.rejects(api.start(), /A token is required for listening on 0\.0\.0\.0/);
+            assert.strictEqual(api['server'].listening, false);
+        });
+
+        it('listens on other addresses than the loopback ones with a token', async () => {
+            const api = new GreeAirConditionerRestApi(
+                {port: 0, address: '0.0.0.0', token: 's3cr3t'}, new MockLogger().asLogger(), () => []);
+            await api.start();
+
+            try {
+                assert.strictEqual((<AddressInfo>api['server'].address()).address, '0.0.0.0');
+            } finally {
+                await api.stop();
+            }
+        });
+
+        it('refreshes the devices continuously while listening', async () => {
+            const refreshed: Record<string, boolean> = {};
+            const createDevice = (name: string): GreeAirConditionerDevice => <GreeAirConditionerDevice><unknown>{
+                setContinuousRefresh: (enabled: boolean) => refreshed[name] = enabled,
+            };
+            const devices: GreeAirConditionerDevice[] = [createDevice('first')];
+            const api = new GreeAirConditionerRestApi(
+                {port: 0, address: '127.0.0.1', token: undefined}, new MockLogger().asLogger(), () => devices);
+
+            api.addDevice(createDevice('early'));
+            await api.start();
+            devices.push(createDevice('second'));
+            api.addDevice(devices[1]);
+            assert.deepStrictEqual(refreshed, {first: true, second: true});
+
+            await api.stop();
+            assert.deepStrictEqual(refreshed, {first: false, second: false});
+        });
+    });
+
+});
@@ -0,0 +1,294 @@
+import * as http from 'http';
+import {IncomingMessage, Server, ServerResponse} from 'http';
+import {timingSafeEqual} from 'crypto';
+import {URL} from 'url';
+import {Logger} from 'homebridge';
+import {Metrics} from '../util/metrics';
+import {Status} from '../util/status';
+import {GreeAirConditionerDevice} from './GreeAirConditionerDevice';
+
+/**
+ * Local HTTP server for reading and setting the state of the devices without going through HomeKit. All the responses
+ * are JSON documents:
+ * - <i>GET /devices</i> lists the devices, with their {@link DeviceContext} and availability;
+ * - <i>GET /devices/{mac}</i> returns a device, along with its status decoded by {@link Status.decode};
+ * - <i>GET /devices/{mac}/status</i> returns the decoded status of a device;
+ * - <i>PATCH /devices/{mac}/status</i> sets the state of a device, given with the names of
+ * {@link GreeAirConditionerCommands} (e.g. <i>{"mode": "cool", "targetTemperature": 24}</i>), and returns the values
+ * confirmed by the device.
+ * <br>
+ * <i>GET /metrics</i> returns the status and the {@link DeviceMetrics} of all the devices in the Prometheus text format
+ * (see {@link Metrics}).
+ * <br>
+ * If {@link RestApiConfig.token} is set, every request must carry it as a bearer token. The token is required for
+ * listening on any other address than a loopback one.
+ */
+export class GreeAirConditionerRestApi {
+
+    private readonly server: Server = http.createServer(this.handleHttpRequest.bind(this));
+    private listening = false;
+
+    /**
+     * Maximum size in bytes of a request body.
+     *
+     * @private
+     */
+    private static readonly maxBodySize: number = 16384;
+
+    /**
+     * Address listened on if {@link RestApiConfig.address} is not set.
+     *
+     * @private
+     */
+    private static readonly defaultAddress: string = '127.0.0.1';
+
+
+    /**
+     * @param config Configuration of the REST API.
+     * @param logger Logger to be used.
+     * @param getDevices Returns the devices registered so far.
+     */
+    constructor(private readonly config: RestApiConfig,
+                private readonly logger: Logger,
+                private readonly getDevices: () => GreeAirConditionerDevice[]) {
+    }
+
+
+    /**
+     * Starts listening on {@link RestApiConfig.port} and {@link RestApiConfig.address} (the loopback address if not
+     * set). The server does not start on any other address than a loopback one if {@link RestApiConfig.token} is not
+     * set, since anyone on the network could control the devices otherwise.
+     * <br>
+     * The continuous refresh of the devices is enabled while the server is listening (see
+     * {@link GreeAirConditionerDevice.setContinuousRefresh}), so that <i>/metrics</i> reports their current status.
+     *
+     * @returns A promise resolved once the server is listening, or rejected if it cannot listen.
+     */
+    public start(): Promise<void> {
+        const address: string = this.config.address || GreeAirConditionerRestApi.defaultAddress;
+
+        if (!this.config.token && !GreeAirConditionerRestApi.isLoopback(address)) {
+            return Promise.reject(new Error(`A token is required for listening on ${address}`));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.config.port, address, () => {
+                this.server.off('error', reject);
+                this.logger.info('REST API listening on %s:%d', address, this.config.port);
+                this.listening = true;
+                this.getDevices().forEach(device => device.setContinuousRefresh(true));
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stops listening and disables the continuous refresh of the devices.
+     *
+     * @returns A promise resolved once the server is closed.
+     */
+    public stop(): Promise<void> {
+        this.listening = false;
+        this.getDevices().forEach(device => device.setContinuousRefresh(false));
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Enables the continuous refresh of a device registered after the start, if the server is listening.
+     *
+     * @param device The device.
+     */
+    public addDevice(device: GreeAirConditionerDevice): void {
+        if (this.listening) {
+            device.setContinuousRefresh(true);
+        }
+    }
+
+    /**
+     * Handles a request of the REST API.
+     *
+     * @param method The HTTP method of the request.
+     * @param url The URL of the request.
+     * @param authorization The <i>Authorization</i> header of the request, if any.
+     * @param body The body of the request.
+     * @returns A promise resolved with the response.
+     */
+    public async handle(method: string, url: string, authorization: string | undefined, body: string): Promise<RestApiResponse> {
+        this.logger.debug('handle() --- Called with parameters of interests: %s, %s', method, url);
+
+        if (!this.isAuthorized(authorization)) {
+            return {status: 401, body: {error: 'Unauthorized'}};
+        }
+
+        const path: string[] = new URL(url, 'http://localhost').pathname.split('/').filter(segment => segment !== '');
+
+        if (path.length === 1 && path[0] === 'metrics') {
+            return method === 'GET'
+                ? {status: 200, body: Metrics.render(this.getDevices()), contentType: 'text/plain; version=0.0.4'}
+                : {status: 405, body: {error: 'Method not allowed'}};
+        }
+        if (path[0] !== 'devices' || path.length > 3 || (path.length === 3 && path[2] !== 'status')) {
+            return {status: 404, body: {error: 'Not found'}};
+        }
+        if (path.length === 1) {
+            return method === 'GET'
+                ? {status: 200, body: this.getDevices().map(device => GreeAirConditionerRestApi.describe(device))}
+                : {status: 405, body: {error: 'Method not allowed'}};
+        }
+
+        const mac: string = path[1].replace(/[:-]/g, '').toLowerCase();
+        const device: GreeAirConditionerDevice | undefined = this.getDevices().find(d => d.getDeviceContext().mac === mac);
+
+        if (device === undefined) {
+            return {status: 404, body: {error: `Unknown device ${path[1]}`}};
+        }
+
+        switch (`${method} ${path.length === 2 ? 'device' : 'status'}`) {
+            case 'GET device': return this.getStatus(device, true);
+            case 'GET status': return this.getStatus(device, false);
+            case 'PATCH status': return this.setStatus(device, body);
+            default: return {status: 405, body: {error: 'Method not allowed'}};
+        }
+    }
+
+
+    /**
+     * Reads a request, passes it to {@link handle} and writes the response.
+     *
+     * @private
+     */
+    private handleHttpRequest(request: IncomingMessage, response: ServerResponse): void {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        const respond = (result: RestApiResponse): void => {
+            response.writeHead(result.status, {'Content-Type': result.contentType || 'application/json'});
+            response.end(result.contentType ? result.body : JSON.stringify(result.body));
+        };
+
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= GreeAirConditionerRestApi.maxBodySize) {
+                chunks.push(chunk);
+            }
+        });
+        request.on('end', () => {
+            if (size > GreeAirConditionerRestApi.maxBodySize) {
+                respond({status: 413, body: {error: 'Request body too large'}});
+                return;
+            }
+
+            this.handle(request.method || 'GET', request.url || '/', request.headers.authorization, Buffer.concat(chunks).toString())
+                .then(respond)
+                .catch((e: Error) => {
+                    this.logger.error('REST API request %s %s failed: %s', request.method, request.url, e.message);
+                    respond({status: 500, body: {error: 'Internal server error'}});
+                });
+        });
+    }
+
+    /**
+     * Checks the bearer token of a request against {@link RestApiConfig.token}, if set.
+     *
+     * @private
+     */
+    private isAuthorized(authorization: string | undefined): boolean {
+        if (!this.config.token) {
+            return true;
+        }
+
+        const expected: Buffer = Buffer.from(`Bearer ${this.config.token}`);
+        const actual: Buffer = Buffer.from(authorization || '');
+
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+    /**
+     * Requests the status of a device and responds with it once the device responds. If the device is unavailable, the
+     * response is 503, or the description of the device without the status if it was requested.
+     *
+     * @param device The device.
+     * @param withDevice Whether the description of the device is included in the response.
+     * @private
+     */
+    private async getStatus(device: GreeAirConditionerDevice, withDevice: boolean): Promise<RestApiResponse> {
+        if (device.isUnavailable()) {
+            return withDevice
+                ? {status: 200, body: GreeAirConditionerRestApi.describe(device)}
+                : {status: 503, body: {error: 'Device unavailable'}};
+        }
+
+        let status: DeviceStatus;
+        try {
+            status = await device.refreshStatus();
+        } catch (e) {
+            return {status: 503, body: {error: (<Error>e).message}};
+        }
+
+        return {
+            status: 200,
+            body: withDevice
+                ? {...GreeAirConditionerRestApi.describe(device), status: Status.decode(status)}
+                : Status.decode(status),
+        };
+    }
+
+    /**
+     * Validates the state from the body of a request and sets it on a device (see
+     * {@link GreeAirConditionerDevice.setState}). The response is sent once the device confirms the state, with the
+     * confirmed values, or with 504 if the device does not acknowledge the commands.
+     *
+     * @param device The device.
+     * @param body The body of the request.
+     * @private
+     */
+    private async setStatus(device: GreeAirConditionerDevice, body: string): Promise<RestApiResponse> {
+        let state: Partial<DeviceStatus>;
+        try {
+            const parsed: unknown = JSON.parse(body);
+
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                throw new Error('Expected a JSON object');
+            }
+            state = Status.encode(<Record<string, unknown>>parsed);
+        } catch (e) {
+            return {status: 400, body: {error: (<Error>e).message}};
+        }
+
+        if (Object.keys(state).length === 0) {
+            return {status: 400, body: {error: 'Nothing to set'}};
+        }
+        if (device.isUnavailable()) {
+            return {status: 503, body: {error: 'Device unavailable'}};
+        }
+
+        let confirmed: Partial<DeviceStatus>;
+        try {
+            confirmed = await device.setState(state);
+        } catch (e) {
+            return {status: 504, body: {error: (<Error>e).message}};
+        }
+
+        return {status: 200, body: Status.decode(confirmed)};
+    }
+
+    /**
+     * Checks whether an address is a loopback address, which only the host itself can reach.
+     *
+     * @private
+     */
+    private static isLoopback(address: string): boolean {
+        return address === 'localhost' || address === '::1' || /^127\./.test(address);
+    }
+
+    /**
+     * Describes a device by its {@link DeviceContext} and availability.
+     *
+     * @private
+     */
+    private static describe(device: GreeAirConditionerDevice): object {
+        return {...device.getDeviceContext(), available: !device.isUnavailable()};
+    }
+
+}
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import * as dgram from 'dgram';
+import {Socket} from 'dgram';
+import {Crypto} from '../util/crypto';
+import {createConfig, createDeviceContext, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerDevice} from '../gree/GreeAirConditionerDevice';
+import {GreeAirConditionerSimulator} from './GreeAirConditionerSimulator';
+
+describe('GreeAirConditionerSimulator', () => {
+
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    let clock: FakeTimers.InstalledClock;
+    let simulator: GreeAirConditionerSimulator;
+    let socket: Socket;
+    let errors: Error[];
+
+    /**
+     * Starts a simulator on a random port of the loopback interface and a real device talking to it over UDP. The
+     * timers are faked, but advance with the real time, so that the timers of the device are dropped after each test.
+     */
+    const start = async (protocol: ProtocolVersion = 1): Promise<GreeAirConditionerDevice> => {
+        simulator = new GreeAirConditionerSimulator(
+            {mac, name: 'Simulator', address: '127.0.0.1', port: 0, key, protocol},
+            new MockLogger().asLogger(),
+        );
+        await simulator.start();
+        await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', () => resolve()));
+
+        clock = FakeTimers.install({shouldAdvanceTime: true});
+
+        const device = new GreeAirConditionerDevice(
+            createConfig(),
+            new MockLogger().asLogger(),
+            new Crypto(),
+            socket,
+            createDeviceContext({address: '127.0.0.1', port: simulator.port(), protocol}),
+        );
+
+        socket.on('message', (buffer: Buffer) => {
+            try {
+                device.handleResponse(JSON.parse(buffer.toString()));
+            } catch (e) {
+                errors.push(<Error>e);
+            }
+        });
+        await device.waitUntilBound();
+        return device;
+    };
+
+    beforeEach(() => {
+        socket = dgram.createSocket('udp4');
+        errors = [];
+    });
+
+    afterEach(async () => {
+        clock.uninstall();
+        await simulator.stop();
+        await new Promise<void>(resolve => socket.close(() => resolve()));
+    });
+
+    [1, 2].forEach(protocol => {
+
+        it(`binds, reports the status and executes the commands with protocol ${protocol}`, async () => {
+            const device = await start(<ProtocolVersion>protocol);
+
+            simulator.status.SetTem = 28;
+            assert.strictEqual((await device.refreshStatus()).SetTem, 28);
+
+            const acknowledged = new Promise(resolve => device.on('commandAcknowledged', resolve));
+            device.cmd({Pow: 1, Mod: 4});
+
+            assert.deepStrictEqual(await acknowledged, {Pow: 1, Mod: 4});
+            assert.strictEqual(simulator.status.Pow, 1);
+            assert.strictEqual(simulator.status.Mod, 4);
+            assert.deepStrictEqual(errors, []);
+        });
+    });
+
+    it('encrypts the responses with a wrong key when the fault is injected', async () => {
+        const device = await start();
+        await device.refreshStatus();
+
+        simulator.faults.wrongKey = true;
+        simulator.status.SetTem = 30;
+        const received = new Promise(resolve => socket.once('message', resolve));
+        const status = assert.rejects(device.refreshStatus(), /did not respond to the status request/);
+        await received;
+        await clock.tickAsync(3000);
+        await status;
+
+        assert.notStrictEqual(errors.length, 0);
+        assert.strictEqual(device.getDeviceStatus().SetTem, 24);
+    });
+
+});
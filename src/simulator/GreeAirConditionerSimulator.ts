@@ -0,0 +1,226 @@
+import * as dgram from 'dgram';
+import {RemoteInfo, Socket} from 'dgram';
+import {Logger} from 'homebridge';
+import {Crypto} from '../util/crypto';
+import {GreeAirConditionerCommands} from '../gree/GreeAirConditionerCommands';
+
+/**
+ * Simulates a Wi-Fi enabled Gree Air Conditioner Device on the local machine. It speaks the same protocol as
+ * {@link GreeAirConditionerDevice}: it answers <i>scan</i> requests with a <i>dev</i> response, <i>bind</i> requests
+ * with a <i>bindok</i> response, <i>status</i> requests with a <i>dat</i> response and <i>cmd</i> requests with a
+ * <i>res</i> response.
+ * <br>
+ * Field problems can be reproduced by changing the {@link faults} (dropped packets, delays, wrong keys and malformed
+ * JSON) while the simulator is running.
+ */
+export class GreeAirConditionerSimulator {
+
+    /**
+     * {@link DeviceStatus} object representing the current status of the simulated device. It can be changed at any
+     * time, e.g. for simulating the use of the IR remote.
+     */
+    public readonly status: DeviceStatus = {
+        //@formatter:off
+        Pow:        GreeAirConditionerCommands.power.value.off,
+        Mod:        GreeAirConditionerCommands.mode.value.cool,
+        SetTem:     24,
+        TemRec:     0,
+        TemSen:     65,
+        TemUn:      GreeAirConditionerCommands.units.value.celsius,
+        WdSpd:      GreeAirConditionerCommands.speed.value.auto,
+        SwingLfRig: GreeAirConditionerCommands.swingLeftRight.value.default,
+        SwUpDn:     GreeAirConditionerCommands.swingUpDown.value.default,
+        Blo:        GreeAirConditionerCommands.xFan.value.off,
+        Health:     GreeAirConditionerCommands.health.value.off,
+        Lig:        GreeAirConditionerCommands.light.value.on,
+        SwhSlp:     GreeAirConditionerCommands.sleep.value.off,
+        Quiet:      GreeAirConditionerCommands.quiet.value.off,
+        Tur:        GreeAirConditionerCommands.turbo.value.off,
+        SvSt:       GreeAirConditionerCommands.energySaving.value.off,
+        StHt:       GreeAirConditionerCommands.frostProtection.value.off,
+        Air:        GreeAirConditionerCommands.freshAir.value.off,
+        SlpMod:     GreeAirConditionerCommands.sleepMode.value.off,
+        OutEnvTem:  55,
+        //@formatter:on
+    } as DeviceStatus;
+
+    /**
+     * {@link FaultInjection} object describing the faults applied to the responses. It can be changed at any time.
+     */
+    public readonly faults: FaultInjection = {
+        dropRate: 0,
+        delay: 0,
+        wrongKey: false,
+        malformedJson: false,
+    };
+
+    private readonly crypto: Crypto = new Crypto();
+    private readonly socket: Socket = dgram.createSocket('udp4');
+    /**
+     * Timers of the delayed responses which were not sent yet. They are cleared when the simulator is stopped.
+     *
+     * @private
+     */
+    private readonly pendingReplies: Set<NodeJS.Timeout> = new Set();
+
+
+    /**
+     * Constructs a new {@link GreeAirConditionerSimulator}. The simulator does not listen for requests until
+     * {@link start} is called.
+     *
+     * @param options {@link SimulatorOptions} of the simulated device.
+     * @param logger Logger to be used.
+     */
+    constructor(public readonly options: SimulatorOptions, private readonly logger: Logger) {
+        this.socket.on('message', this.handleRequest.bind(this));
+        this.socket.on('error', (err: Error) => this.logger.error(err.message));
+    }
+
+
+    /**
+     * Binds the socket of the simulator to {@link SimulatorOptions.address} and {@link SimulatorOptions.port}.
+     *
+     * @returns A promise resolved when the simulator is listening for requests.
+     */
+    public start(): Promise<void> {
+        return new Promise(resolve => this.socket.bind(this.options.port, this.options.address, () => {
+            this.logger.info('Simulating device %s on %s:%d', this.options.mac, this.options.address, this.port());
+            resolve();
+        }));
+    }
+
+    /**
+     * Closes the socket of the simulator.
+     *
+     * @returns A promise resolved when the socket is closed.
+     */
+    public stop(): Promise<void> {
+        this.pendingReplies.forEach(timer => clearTimeout(timer));
+        this.pendingReplies.clear();
+
+        return new Promise(resolve => this.socket.close(() => resolve()));
+    }
+
+    /**
+     * Returns the port on which the simulator is listening. Useful when {@link SimulatorOptions.port} is 0.
+     *
+     * @returns The port on which the simulator is listening.
+     */
+    public port(): number {
+        return this.socket.address().port;
+    }
+
+
+    /**
+     * Parses and decrypts a request, and sends the matching response. Requests which cannot be parsed or decrypted are
+     * logged and ignored, as a real device does.
+     *
+     * @param buffer Buffer containing the request.
+     * @param remoteInfo Information about the remote which sent the request.
+     * @private
+     */
+    private handleRequest(buffer: Buffer, remoteInfo: RemoteInfo): void {
+        this.logger.debug('handleRequest() --- Called with parameters of interests: %s, %j', buffer, remoteInfo);
+
+        try {
+            const message = JSON.parse(buffer.toString());
+
+            if (message.t === 'scan') {
+                this.reply(this.devPack(), 1, '', undefined, remoteInfo);
+                return;
+            }
+
+            const packMessage: PackMessage = message;
+            const key: string | undefined = packMessage.i === 1 ? undefined : this.options.key;
+            const pack = this.crypto.decryptPack(packMessage, key);
+
+            this.logger.debug('handleRequest() --- Decrypted pack %j', pack);
+
+            switch (pack.t) {
+                case 'bind': this.reply(this.bindOkPack(), 1, 'app', undefined, remoteInfo); break;
+                case 'status': this.reply(this.datPack(<StatusPack>pack), 0, '', this.options.key, remoteInfo); break;
+                case 'cmd': this.reply(this.resPack(<CmdPack>pack), 0, '', this.options.key, remoteInfo); break;
+            }
+        } catch (e) {
+            this.logger.warn('Dropped invalid request from %s:%d (%s)', remoteInfo.address, remoteInfo.port, (<Error>e).message);
+        }
+    }
+
+    private devPack(): DevPack {
+        //@formatter:off
+        return {
+            t:       'dev',
+            bc:      'gree',
+            brand:   'gree',
+            catalog: 'gree',
+            cid:     this.options.mac,
+            mac:     this.options.mac,
+            mid:     '10001',
+            model:   'gree',
+            name:    this.options.name,
+            series:  'gree',
+            vendor:  '1',
+            ver:     this.options.protocol === 2 ? 'V1.21' : 'V1.2.1',
+            lock:    0,
+        };
+        //@formatter:on
+    }
+
+    private bindOkPack(): BindOkPack {
+        return {t: 'bindok', r: 200, mac: this.options.mac, key: this.options.key};
+    }
+
+    private datPack(pack: StatusPack): DatPack {
+        const cols: string[] = pack.cols.filter(col => this.status[col] !== undefined);
+
+        return {t: 'dat', r: 200, mac: this.options.mac, cols, dat: cols.map(col => this.status[col])};
+    }
+
+    private resPack(pack: CmdPack): ResPack {
+        pack.opt.forEach((col: string, i: number) => {
+            this.status[col] = pack.p[i];
+        });
+
+        return {t: 'res', r: 200, mac: this.options.mac, opt: pack.opt, p: pack.p, val: pack.p};
+    }
+
+    /**
+     * Encrypts a response pack and sends it, after applying the {@link faults}.
+     *
+     * @param pack The response pack.
+     * @param i The <i>i</i> field of the pack message (1 when the generic key is used).
+     * @param tcid The <i>tcid</i> field of the pack message.
+     * @param key The key used for encryption. The generic key is used when undefined.
+     * @param remoteInfo Information about the remote to which the response is sent.
+     * @private
+     */
+    private reply(pack: Pack, i: number, tcid: string, key: string | undefined, remoteInfo: RemoteInfo): void {
+        if (Math.random() < this.faults.dropRate) {
+            this.logger.debug('reply() --- Dropped %j', pack);
+            return;
+        }
+
+        const encryptionKey: string | undefined = this.faults.wrongKey ? 'wR0nGk3y-wR0nGk3' : key;
+        const packMessage: PackMessage = {
+            t: 'pack',
+            i,
+            uid: 0,
+            cid: this.options.mac,
+            tcid,
+            ...this.crypto.encryptPack(pack, this.options.protocol, encryptionKey),
+        };
+        let message: string = JSON.stringify(packMessage);
+
+        if (this.faults.malformedJson) {
+            message = message.substring(0, message.length / 2);
+        }
+
+        const timer: NodeJS.Timeout = setTimeout(() => {
+            this.pendingReplies.delete(timer);
+            this.logger.debug('reply() --- Sending %j', pack);
+            this.socket.send(message, remoteInfo.port, remoteInfo.address);
+        }, this.faults.delay);
+        this.pendingReplies.add(timer);
+    }
+
+}
@@ -0,0 +1,61 @@
+import * as readline from 'readline';
+import {ConsoleLogger} from '../util/logger';
+import {GreeAirConditionerSimulator} from './GreeAirConditionerSimulator';
+
+/**
+ * Runs a {@link GreeAirConditionerSimulator} from the command line. Options are given as <i>--name value</i> pairs:
+ * ```
+ * npm run simulator -- --port 7001 --mac f4911e000001 --protocol 2 --drop 0.2 --delay 500
+ * ```
+ * While running, lines read from the standard input change the simulated device:
+ * - <i>Pow=1 SetTem=22</i> sets status columns (e.g. simulating the IR remote);
+ * - <i>fault dropRate=0.5 delay=1000 wrongKey=1 malformedJson=0</i> changes the injected faults;
+ * - <i>status</i> prints the current status.
+ */
+const args: Record<string, string> = {};
+process.argv.slice(2).forEach((arg: string, i: number, argv: string[]) => {
+    if (arg.startsWith('--')) {
+        args[arg.substring(2)] = argv[i + 1] !== undefined && !argv[i + 1].startsWith('--') ? argv[i + 1] : 'true';
+    }
+});
+
+const logger: ConsoleLogger = new ConsoleLogger('Gree Simulator', args['debug'] === 'true');
+
+//@formatter:off
+const simulator: GreeAirConditionerSimulator = new GreeAirConditionerSimulator({
+    mac:      args['mac'] || 'f4911e000001',
+    name:     args['name'] || 'Simulated AC',
+    address:  args['address'] || '0.0.0.0',
+    port:     Number(args['port'] || 7000),
+    key:      args['key'] || 'Sim1Sim2Sim3Sim4',
+    protocol: args['protocol'] === '2' ? 2 : 1,
+}, logger);
+//@formatter:on
+
+simulator.faults.dropRate = Number(args['drop'] || 0);
+simulator.faults.delay = Number(args['delay'] || 0);
+simulator.faults.wrongKey = args['wrong-key'] === 'true';
+simulator.faults.malformedJson = args['malformed-json'] === 'true';
+
+simulator.start().then(() => {
+    readline.createInterface({input: process.stdin}).on('line', (line: string) => {
+        const [first, ...rest] = line.trim().split(/\s+/);
+
+        if (first === 'status') {
+            logger.info('%j', simulator.status);
+            return;
+        }
+
+        const target = first === 'fault' ? simulator.faults : simulator.status;
+        (first === 'fault' ? rest : [first, ...rest]).forEach((assignment: string) => {
+            const [key, value] = assignment.split('=');
+
+            if (key && value !== undefined) {
+                target[key] = typeof target[key] === 'boolean' ? value === '1' || value === 'true' : Number(value);
+            }
+        });
+        logger.info('Status %j, faults %j', simulator.status, simulator.faults);
+    });
+});
+
+process.on('SIGINT', () => simulator.stop().then(() => process.exit(0)));
@@ -0,0 +1,103 @@
+import {EventEmitter} from 'events';
+import {RemoteInfo, Socket} from 'dgram';
+import {Crypto} from '../util/crypto';
+
+/**
+ * A datagram sent through a {@link FakeSocket}.
+ */
+export interface SentMessage {
+    /**
+     * The parsed message: a {@link PackMessage}, or a {@link ScanMessage} which only has the <i>t</i> field of it.
+     */
+    message: PackMessage;
+    port: number;
+    address: string;
+}
+
+/**
+ * Options of {@link FakeSocket.reply}: the key and protocol used for encrypting the pack, the fields of the pack message
+ * and the address the response comes from.
+ */
+export interface ReplyOptions {
+    key?: string;
+    protocol?: ProtocolVersion;
+    i?: number;
+    tcid?: string;
+    address?: string;
+}
+
+/**
+ * In-process replacement of the UDP {@link Socket} shared by the platform and the devices. Sent datagrams are recorded
+ * in {@link sent} and responses are delivered with {@link receive} or {@link reply}.
+ */
+export class FakeSocket extends EventEmitter {
+
+    public readonly sent: SentMessage[] = [];
+    public boundPort: number | undefined;
+
+    public asSocket(): Socket {
+        return <Socket><unknown>this;
+    }
+
+    public bind(port: number, callback?: () => void): this {
+        this.boundPort = port;
+        if (callback) {
+            callback();
+        }
+        return this;
+    }
+
+    public send(message: string, port: number, address: string, callback?: () => void): void {
+        this.sent.push({message: JSON.parse(message), port, address});
+        if (callback) {
+            callback();
+        }
+    }
+
+    public close(callback?: () => void): void {
+        if (callback) {
+            callback();
+        }
+    }
+
+    /**
+     * Delivers a raw datagram, as if it was received from the given address.
+     */
+    public receive(data: string | object, address = '192.168.1.10', port = 7000): void {
+        const buffer: Buffer = Buffer.from(typeof data === 'string' ? data : JSON.stringify(data));
+        const remoteInfo: RemoteInfo = {address, family: 'IPv4', port, size: buffer.length};
+
+        this.emit('message', buffer, remoteInfo);
+    }
+
+    /**
+     * Encrypts a response pack, wraps it in a pack message and delivers it.
+     */
+    public reply(crypto: Crypto, mac: string, pack: object, options: ReplyOptions = {}): void {
+        this.receive({
+            t: 'pack',
+            i: options.i !== undefined ? options.i : (options.key === undefined ? 1 : 0),
+            uid: 0,
+            cid: mac,
+            tcid: options.tcid !== undefined ? options.tcid : 'app',
+            ...crypto.encryptPack(pack, options.protocol || 1, options.key),
+        }, options.address);
+    }
+
+    /**
+     * Returns the decrypted pack of the last pack message sent, or undefined if there is none. Pack messages with
+     * <i>i</i> set to 1 are decrypted with the generic key, the others with the given key.
+     */
+    public lastPack(crypto: Crypto, key?: string): Pack | undefined {
+        const packMessages: SentMessage[] = this.sent.filter(s => s.message.t === 'pack');
+
+        if (packMessages.length === 0) {
+            return undefined;
+        }
+
+        const packMessage: PackMessage = packMessages[packMessages.length - 1].message;
+
+        return crypto.decryptPack(packMessage, packMessage.i === 1 ? undefined : key);
+    }
+
+}
@@ -0,0 +1,137 @@
+import {EventEmitter} from 'events';
+import {API, Logger, PlatformAccessory, PlatformConfig} from 'homebridge';
+import {HomebridgeAPI} from 'homebridge/lib/api';
+import {PlatformAccessory as PlatformAccessoryClass} from 'homebridge/lib/platformAccessory';
+import {GreeAirConditionerPlatform} from '../gree/GreeAirConditionerPlatform';
+import {PLATFORM_NAME} from '../settings';
+import {FakeSocket} from './FakeSocket';
+
+/**
+ * HAP-NodeJS as provided by Homebridge to the plugins.
+ */
+export const hap = new HomebridgeAPI().hap;
+
+/**
+ * Mocked Homebridge {@link API}. It provides the real {@link hap} and {@link PlatformAccessory} implementations, and it
+ * records the accessories (un)registered or updated by the platform.
+ */
+export class MockApi extends EventEmitter {
+
+    public readonly hap = hap;
+    public readonly platformAccessory = PlatformAccessoryClass;
+
+    public readonly registered: PlatformAccessory[] = [];
+    public readonly updated: PlatformAccessory[] = [];
+    public readonly unregistered: PlatformAccessory[] = [];
+
+    public asApi(): API {
+        return <API><unknown>this;
+    }
+
+    public registerPlatformAccessories(pluginIdentifier: string, platformName: string, accessories: PlatformAccessory[]): void {
+        this.registered.push(...accessories);
+    }
+
+    public updatePlatformAccessories(accessories: PlatformAccessory[]): void {
+        this.updated.push(...accessories);
+    }
+
+    public unregisterPlatformAccessories(pluginIdentifier: string, platformName: string, accessories: PlatformAccessory[]): void {
+        this.unregistered.push(...accessories);
+    }
+
+}
+
+/**
+ * Mocked {@link Logger} which records the messages instead of printing them.
+ */
+export class MockLogger {
+
+    public readonly prefix: string = 'test';
+    public readonly messages: { level: string; message: string }[] = [];
+
+    public asLogger(): Logger {
+        return <Logger><unknown>this;
+    }
+
+    public info(message: string): void {
+        this.messages.push({level: 'info', message});
+    }
+
+    public warn(message: string): void {
+        this.messages.push({level: 'warn', message});
+    }
+
+    public error(message: string): void {
+        this.messages.push({level: 'error', message});
+    }
+
+    public debug(message: string): void {
+        this.messages.push({level: 'debug', message});
+    }
+
+    public log(level: string, message: string): void {
+        this.messages.push({level, message});
+    }
+
+}
+
+/**
+ * Default configuration used by the tests.
+ */
+export function createConfig(overrides: Partial<Config> = {}): Config {
+    //@formatter:off
+    return {
+        port:                  7000,
+        scanPort:              7000,
+        scanAddress:           '192.168.1.255',
+        scanInterval:          1000,
+        scanMaxRetries:        3,
+        refreshInterval:       1000,
+        rediscoveryInterval:   undefined,
+        dehumidifier:          undefined,
+        fan:                   undefined,
+        verticalSwingDefaults: undefined,
+        restApi:               undefined,
+        mqtt:                  undefined,
+        debug:                 false,
+        devices:               undefined,
+        ...overrides,
+    };
+    //@formatter:on
+}
+
+/**
+ * Creates a {@link DeviceContext} of a test device.
+ */
+export function createDeviceContext(overrides: Partial<DeviceContext> = {}): DeviceContext {
+    //@formatter:off
+    return {
+        mac:      'f4911e000001',
+        address:  '192.168.1.10',
+        brand:    'gree',
+        model:    'gree',
+        name:     'Living Room',
+        version:  'V1.2.1',
+        port:     undefined,
+        protocol: undefined,
+        ...overrides,
+    };
+    //@formatter:on
+}
+
+/**
+ * Creates a {@link GreeAirConditionerPlatform} which uses the given {@link FakeSocket} instead of a UDP socket.
+ */
+export function createPlatform(config: Config, api: MockApi, logger: MockLogger, socket: FakeSocket): GreeAirConditionerPlatform {
+    const platform = new GreeAirConditionerPlatform(
+        logger.asLogger(),
+        <PlatformConfig><unknown>{platform: PLATFORM_NAME, ...config},
+        api.asApi(),
+    );
+
+    platform.socket.close();
+    Object.defineProperty(platform, 'socket', {value: socket.asSocket()});
+
+    return platform;
+}
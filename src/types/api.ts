@@ -0,0 +1,13 @@
+//@formatter:off
+
+/**
+ * Response of the REST API, before being serialized as JSON. If a content type is given, the body is a string sent as
+ * is.
+ */
+interface RestApiResponse {
+    status: number;
+    body: unknown;
+    contentType?: string;
+}
+
+//@formatter:on
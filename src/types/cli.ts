@@ -0,0 +1,23 @@
+//@formatter:off
+
+/**
+ * Options of the command-line tool, given as <i>--name value</i> pairs (or <i>--name</i> for the flags).
+ */
+interface CliOptions {
+    json: boolean;
+    debug: boolean;
+    address: string;
+    port: number;
+    timeout: number;
+    apAddress: string;
+    wait: number;
+}
+
+/**
+ * Reply of a device in AP mode to a {@link WlanMessage}, with <i>r</i> set to 200 if the credentials are accepted.
+ */
+interface WlanReply extends Pack {
+    r?: number;
+}
+
+//@formatter:on
@@ -1,13 +1,76 @@
 //@formatter:off
 
 interface Config {
-    port:            number,
-    scanPort:        number,
-    scanAddress:     string,
-    scanInterval:    number,
-    scanMaxRetries:  number,
-    refreshInterval: number,
-    debug:           boolean
+    port:                  number,
+    scanPort:              number,
+    scanAddress:           string,
+    scanInterval:          number,
+    scanMaxRetries:        number,
+    refreshInterval:       number,
+    rediscoveryInterval:   number | undefined,
+    dehumidifier:          boolean | undefined,
+    fan:                   boolean | undefined,
+    verticalSwingDefaults: VerticalSwingDefaultsConfig | undefined,
+    restApi:               RestApiConfig | undefined,
+    mqtt:                  MqttConfig | undefined,
+    debug:                 boolean,
+    devices:               DeviceConfig[] | undefined
 }
 
-//@formatter:on
\ No newline at end of file
+interface DeviceConfig {
+    mac:      string,
+    address:  string | undefined,
+    name:     string | undefined,
+    port:     number | undefined,
+    protocol: ProtocolVersion | undefined,
+    features: FeaturesConfig | undefined
+}
+
+interface StaticDeviceConfig extends DeviceConfig {
+    address: string
+}
+
+interface FeaturesConfig {
+    xFan:   boolean | undefined,
+    health: boolean | undefined,
+    light:  boolean | undefined,
+    sleep:  boolean | undefined,
+    quiet:  boolean | undefined,
+    turbo:  boolean | undefined,
+
+    energySaving:    boolean | undefined,
+    frostProtection: boolean | undefined,
+    freshAir:        boolean | undefined,
+
+    horizontalSlats: boolean | undefined,
+    verticalSlats:   boolean | undefined,
+
+    outdoorTemperature: boolean | undefined,
+
+    dehumidifier: boolean | undefined,
+    fan:          boolean | undefined
+}
+
+interface VerticalSwingDefaultsConfig {
+    heatFixed:    SwUpDn | undefined,
+    heatSwinging: SwUpDn | undefined,
+    coolFixed:    SwUpDn | undefined,
+    coolSwinging: SwUpDn | undefined
+}
+
+interface RestApiConfig {
+    port:    number,
+    address: string | undefined,
+    token:   string | undefined
+}
+
+interface MqttConfig {
+    url:                    string,
+    username:               string | undefined,
+    password:               string | undefined,
+    prefix:                 string | undefined,
+    homeAssistantDiscovery: boolean | undefined,
+    discoveryPrefix:        string | undefined
+}
+
+//@formatter:on
@@ -1,16 +1,31 @@
 //@formatter:off
 
+/**
+ * Version of the protocol used by the device: 1 for AES-ECB, 2 for AES-GCM (newer firmware).
+ */
+type ProtocolVersion = 1 | 2;
+
 interface ScanMessage {
     t: string
 }
 
+/**
+ * Wi-Fi credentials sent in clear to a device in AP mode (see {@link GreeAirConditionerCli}).
+ */
+interface WlanMessage {
+    t:    string,
+    psw:  string,
+    ssid: string
+}
+
 interface PackMessage {
     t:    string,
     i:    number,
     uid:  number,
     cid:  string,
     tcid: string,
-    pack: string
+    pack: string,
+    tag?: string
 }
 
-//@formatter:on
\ No newline at end of file
+//@formatter:on
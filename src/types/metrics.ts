@@ -0,0 +1,27 @@
+//@formatter:off
+
+/**
+ * Counters and status latency of a device, reported by {@link GreeAirConditionerDevice.getMetrics}.
+ */
+interface DeviceMetrics {
+    statusRequests: number;
+    datResponses: number;
+    commandsSent: number;
+    commandsAcknowledged: number;
+    bindAttempts: number;
+    unavailableTransitions: number;
+    statusLatency: HistogramData;
+}
+
+/**
+ * Observations of a histogram: the count of each bucket (not cumulative), by upper bound, and the sum and count of all
+ * the observations.
+ */
+interface HistogramData {
+    buckets: number[];
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+//@formatter:on
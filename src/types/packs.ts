@@ -34,6 +34,26 @@ interface CmdPack extends RequestPack {
     opt: string[],
     p:   number[]
 }
+
+/**
+ * A <i>cmd</i> request waiting for its <i>res</i> response.
+ */
+interface InFlightCommand {
+    pack:     CmdPack,
+    attempts: number,
+    timer:    NodeJS.Timeout | undefined,
+    waiters:  CommandWaiter[]
+}
+
+/**
+ * A caller waiting for the device to confirm the values of some columns.
+ */
+interface CommandWaiter {
+    columns:   string[],
+    confirmed: Partial<DeviceStatus>,
+    resolve:   (confirmed: Partial<DeviceStatus>) => void,
+    reject:    (error: Error) => void
+}
 //endregion
 
 //region Response Packs
@@ -0,0 +1,19 @@
+//@formatter:off
+
+interface SimulatorOptions {
+    mac: string;
+    name: string;
+    address: string;
+    port: number;
+    key: string;
+    protocol: ProtocolVersion;
+}
+
+interface FaultInjection {
+    dropRate: number;
+    delay: number;
+    wrongKey: boolean;
+    malformedJson: boolean;
+}
+
+//@formatter:on
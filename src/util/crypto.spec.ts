@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import {Crypto} from './crypto';
+
+describe('Crypto', () => {
+
+    const crypto: Crypto = new Crypto();
+    const pack = {t: 'status', mac: 'f4911e000001', cols: ['Pow', 'Mod']};
+
+    describe('AES-ECB (protocol version 1)', () => {
+
+        it('decrypts what it encrypts with the generic key', () => {
+            assert.deepStrictEqual(crypto.decrypt(crypto.encrypt(pack)), pack);
+        });
+
+        it('decrypts what it encrypts with a device key', () => {
+            const key = 'Ab1Cd2Ef3Gh4Ij5K';
+
+            assert.deepStrictEqual(crypto.decrypt(crypto.encrypt(pack, key), key), pack);
+        });
+
+        it('fails to decrypt with a different key', () => {
+            assert.throws(() => crypto.decrypt(crypto.encrypt(pack, 'Ab1Cd2Ef3Gh4Ij5K')));
+        });
+
+        it('encrypts packs without a tag', () => {
+            assert.strictEqual(crypto.encryptPack(pack, 1).tag, undefined);
+        });
+    });
+
+    describe('AES-GCM (protocol version 2)', () => {
+
+        it('decrypts what it encrypts with the generic key', () => {
+            const {pack: encrypted, tag} = crypto.encryptGcm(pack);
+
+            assert.deepStrictEqual(crypto.decryptGcm(encrypted, tag), pack);
+        });
+
+        it('rejects a pack with a wrong tag', () => {
+            const {pack: encrypted} = crypto.encryptGcm(pack);
+            const {tag} = crypto.encryptGcm({t: 'other'});
+
+            assert.throws(() => crypto.decryptGcm(encrypted, tag));
+        });
+
+        it('encrypts packs with a tag', () => {
+            assert.notStrictEqual(crypto.encryptPack(pack, 2).tag, undefined);
+        });
+    });
+
+    describe('decryptPack', () => {
+
+        it('chooses the cipher by the presence of the tag', () => {
+            const key = 'Ab1Cd2Ef3Gh4Ij5K';
+            const message = (encrypted: { pack: string; tag?: string }): PackMessage =>
+                ({t: 'pack', i: 0, uid: 0, cid: 'app', tcid: '', ...encrypted});
+
+            assert.deepStrictEqual(crypto.decryptPack(message(crypto.encryptPack(pack, 1, key)), key), pack);
+            assert.deepStrictEqual(crypto.decryptPack(message(crypto.encryptPack(pack, 2, key)), key), pack);
+        });
+    });
+
+});
@@ -2,7 +2,11 @@ import * as crypto from 'crypto';
 
 export class Crypto {
 
-    private genericKey: string = 'a3K8Bx%2r8Y7#xDh';
+    private readonly genericKey: string = 'a3K8Bx%2r8Y7#xDh';
+
+    private readonly genericGcmKey: string = '{yxAHAY_Lm6pbC/<';
+    private readonly gcmNonce: Buffer = Buffer.from([0x54, 0x40, 0x78, 0x44, 0x49, 0x67, 0x5a, 0x51, 0x6c, 0x5e, 0x63, 0x13]);
+    private readonly gcmAad: Buffer = Buffer.from('qualcomm-test');
 
     public encrypt(data, key: string = this.genericKey): string {
         const cipher = crypto.createCipheriv('aes-128-ecb', key, null);
@@ -16,4 +20,64 @@ export class Crypto {
         return JSON.parse(decipher.update(data, 'base64', 'utf8') + decipher.final('utf8'));
     }
 
+    /**
+     * Encrypts a pack with AES-GCM, as {@link ProtocolVersion} 2 does.
+     *
+     * @param data The pack to be encrypted.
+     * @param key The key to be used. Defaults to the generic key of {@link ProtocolVersion} 2.
+     * @returns The encrypted pack and its authentication tag, both encoded in base64.
+     */
+    public encryptGcm(data, key: string = this.genericGcmKey): { pack: string, tag: string } {
+        const cipher = crypto.createCipheriv('aes-128-gcm', key, this.gcmNonce);
+        cipher.setAAD(this.gcmAad);
+
+        const pack = cipher.update(JSON.stringify(data), 'utf8', 'base64') + cipher.final('base64');
+
+        return {pack, tag: cipher.getAuthTag().toString('base64')};
+    }
+
+    /**
+     * Decrypts a pack encrypted with AES-GCM, as {@link ProtocolVersion} 2 does.
+     *
+     * @param data The encrypted pack, encoded in base64.
+     * @param tag The authentication tag of the pack, encoded in base64.
+     * @param key The key to be used. Defaults to the generic key of {@link ProtocolVersion} 2.
+     * @returns The decrypted pack.
+     * @throws Error if the authentication tag does not match the pack.
+     */
+    public decryptGcm(data, tag: string, key: string = this.genericGcmKey): any {
+        const decipher = crypto.createDecipheriv('aes-128-gcm', key, this.gcmNonce);
+        decipher.setAAD(this.gcmAad);
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+        return JSON.parse(decipher.update(data, 'base64', 'utf8') + decipher.final('utf8'));
+    }
+
+    /**
+     * Encrypts a pack using the cipher of the given protocol version.
+     *
+     * @param data The pack to be encrypted.
+     * @param protocolVersion {@link ProtocolVersion} of the device.
+     * @param key The key to be used. Defaults to the generic key of the protocol version.
+     * @returns The encrypted pack, along with the authentication tag for {@link ProtocolVersion} 2.
+     */
+    public encryptPack(data, protocolVersion: ProtocolVersion, key?: string): { pack: string, tag?: string } {
+        return protocolVersion === 2
+            ? this.encryptGcm(data, key)
+            : {pack: this.encrypt(data, key)};
+    }
+
+    /**
+     * Decrypts the pack of a pack message. The cipher is chosen by the presence of the <i>tag</i> field.
+     *
+     * @param packMessage The pack message containing the encrypted pack.
+     * @param key The key to be used. Defaults to the generic key of the detected protocol version.
+     * @returns The decrypted pack.
+     */
+    public decryptPack(packMessage: PackMessage, key?: string): any {
+        return packMessage.tag !== undefined
+            ? this.decryptGcm(packMessage.pack, packMessage.tag, key)
+            : this.decrypt(packMessage.pack, key);
+    }
+
 }
@@ -0,0 +1,39 @@
+/**
+ * Histogram with fixed buckets, as exposed by {@link Metrics.render}.
+ */
+export class Histogram implements HistogramData {
+
+    /**
+     * Upper bounds of the buckets of the status round-trip latency, in seconds.
+     */
+    public static readonly latencyBuckets: number[] = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+    public readonly counts: number[] = this.buckets.map(() => 0);
+    public sum = 0;
+    public count = 0;
+
+
+    /**
+     * @param buckets Upper bounds of the buckets, in ascending order. Observations above the last bound are only
+     * counted in {@link count}.
+     */
+    constructor(public readonly buckets: number[]) {
+    }
+
+
+    /**
+     * Records an observation.
+     *
+     * @param value The observed value.
+     */
+    public observe(value: number): void {
+        const bucket: number = this.buckets.findIndex(bound => value <= bound);
+
+        if (bucket !== -1) {
+            ++this.counts[bucket];
+        }
+        this.sum += value;
+        ++this.count;
+    }
+
+}
@@ -0,0 +1,58 @@
+import type {Logger, LogLevel} from 'homebridge';
+import {format} from 'util';
+
+/**
+ * Minimal {@link Logger} writing to the standard streams, used by the tooling which runs without the Homebridge runtime.
+ * Homebridge is only imported for its types, so the tooling does not load it.
+ */
+export class ConsoleLogger implements Logger {
+
+    /**
+     * Values of the {@link LogLevel} enum of Homebridge.
+     *
+     * @private
+     */
+    private static readonly levels: Record<'info' | 'warn' | 'error' | 'debug', LogLevel> = {
+        //@formatter:off
+        info:  <LogLevel>'info',
+        warn:  <LogLevel>'warn',
+        error: <LogLevel>'error',
+        debug: <LogLevel>'debug',
+        //@formatter:on
+    };
+
+    constructor(public readonly prefix: string, private readonly debugEnabled: boolean = false) {
+    }
+
+
+    public info(message: string, ...parameters: unknown[]): void {
+        this.log(ConsoleLogger.levels.info, message, ...parameters);
+    }
+
+    public warn(message: string, ...parameters: unknown[]): void {
+        this.log(ConsoleLogger.levels.warn, message, ...parameters);
+    }
+
+    public error(message: string, ...parameters: unknown[]): void {
+        this.log(ConsoleLogger.levels.error, message, ...parameters);
+    }
+
+    public debug(message: string, ...parameters: unknown[]): void {
+        this.log(ConsoleLogger.levels.debug, message, ...parameters);
+    }
+
+    public log(level: LogLevel, message: string, ...parameters: unknown[]): void {
+        if (level === ConsoleLogger.levels.debug && !this.debugEnabled) {
+            return;
+        }
+
+        const line = `[${new Date().toISOString()}] [${this.prefix}] ${format(message, ...parameters)}\n`;
+
+        if (level === ConsoleLogger.levels.error || level === ConsoleLogger.levels.warn) {
+            process.stderr.write(line);
+        } else {
+            process.stdout.write(line);
+        }
+    }
+
+}
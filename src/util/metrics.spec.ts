@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as FakeTimers from '@sinonjs/fake-timers';
+import {Crypto} from './crypto';
+import {Metrics} from './metrics';
+import {FakeSocket} from '../test/FakeSocket';
+import {createConfig, createDeviceContext, MockLogger} from '../test/homebridge';
+import {GreeAirConditionerDevice} from '../gree/GreeAirConditionerDevice';
+
+describe('Metrics', () => {
+
+    const crypto: Crypto = new Crypto();
+    const key = 'Ab1Cd2Ef3Gh4Ij5K';
+    const mac = 'f4911e000001';
+
+    let clock: FakeTimers.InstalledClock;
+    let socket: FakeSocket;
+    let device: GreeAirConditionerDevice;
+
+    beforeEach(() => {
+        clock = FakeTimers.install();
+        socket = new FakeSocket();
+        device = new GreeAirConditionerDevice(
+            createConfig(),
+            new MockLogger().asLogger(),
+            crypto,
+            socket.asSocket(),
+            createDeviceContext({name: 'Living "Room"'}),
+        );
+        socket.on('message', (buffer: Buffer) => device.handleResponse(JSON.parse(buffer.toString())));
+        socket.reply(crypto, mac, {t: 'bindok', r: 200, mac, key});
+    });
+
+    afterEach(() => clock.uninstall());
+
+    it('renders the gauges of the status, without the offset of the room temperature', () => {
+        socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow', 'Mod', 'SetTem', 'TemSen'], dat: [1, 1, 24, 62]}, {key});
+
+        const lines: string[] = Metrics.render([device]).split('\n');
+        const labels = `{mac="${mac}",name="Living \\"Room\\""}`;
+
+        assert.ok(lines.includes('# TYPE gree_room_temperature_celsius gauge'));
+        assert.ok(lines.includes(`gree_room_temperature_celsius${labels} 22`));
+        assert.ok(lines.includes(`gree_target_temperature_celsius${labels} 24`));
+        assert.ok(lines.includes(`gree_power${labels} 1`));
+        assert.ok(lines.includes(`gree_mode${labels} 1`));
+        assert.ok(!lines.some(line => line.startsWith('gree_fan_speed{')));
+    });
+
+    it('renders the counters and the latency histogram', () => {
+        device.getDeviceStatus();
+        clock.tick(1030);
+        socket.reply(crypto, mac, {t: 'dat', r: 200, mac, cols: ['Pow'], dat: [1]}, {key});
+
+        const lines: string[] = Metrics.render([device]).split('\n');
+        const labels = `mac="${mac}",name="Living \\"Room\\""`;
+
+        assert.ok(lines.includes('# TYPE gree_status_requests_total counter'));
+        assert.ok(lines.includes(`gree_status_requests_total{${labels}} 1`));
+        assert.ok(lines.includes(`gree_dat_responses_total{${labels}} 1`));
+        assert.ok(lines.includes(`gree_bind_attempts_total{${labels}} 1`));
+        assert.ok(lines.includes('# TYPE gree_status_latency_seconds histogram'));
+        assert.ok(lines.includes(`gree_status_latency_seconds_bucket{${labels},le="0.025"} 0`));
+        assert.ok(lines.includes(`gree_status_latency_seconds_bucket{${labels},le="0.05"} 1`));
+        assert.ok(lines.includes(`gree_status_latency_seconds_bucket{${labels},le="+Inf"} 1`));
+        assert.ok(lines.includes(`gree_status_latency_seconds_sum{${labels}} 0.03`));
+        assert.ok(lines.includes(`gree_status_latency_seconds_count{${labels}} 1`));
+    });
+
+});
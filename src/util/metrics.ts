@@ -0,0 +1,99 @@
+import {GreeAirConditionerDevice} from '../gree/GreeAirConditionerDevice';
+
+/**
+ * Renders the status and the {@link DeviceMetrics} of the devices in the Prometheus text format. Every sample is
+ * labelled by the MAC and the name of its device.
+ */
+export class Metrics {
+
+    /**
+     * Gauges of the status: name, help, column and offset of each gauge. The room temperature is reported without the
+     * offset of 40 of {@link GreeAirConditionerCommands.temperatureSensor TemSen}.
+     *
+     * @private
+     */
+    private static readonly gauges: { name: string; help: string; column: string; offset: number }[] = [
+        {name: 'gree_room_temperature_celsius', help: 'Room temperature (TemSen).', column: 'TemSen', offset: -40},
+        {name: 'gree_target_temperature_celsius', help: 'Target temperature (SetTem).', column: 'SetTem', offset: 0},
+        {name: 'gree_power', help: 'Power state (Pow): 0 off, 1 on.', column: 'Pow', offset: 0},
+        {name: 'gree_mode', help: 'Mode (Mod): 0 auto, 1 cool, 2 dry, 3 fan, 4 heat.', column: 'Mod', offset: 0},
+        {name: 'gree_fan_speed', help: 'Fan speed (WdSpd): 0 auto, 1 low to 5 high.', column: 'WdSpd', offset: 0},
+    ];
+
+    /**
+     * Counters of the {@link DeviceMetrics}: name, help and key of each counter.
+     *
+     * @private
+     */
+    private static readonly counters: { name: string; help: string; key: keyof Omit<DeviceMetrics, 'statusLatency'> }[] = [
+        {name: 'gree_status_requests_total', help: 'Status requests sent.', key: 'statusRequests'},
+        {name: 'gree_dat_responses_total', help: 'Dat responses received.', key: 'datResponses'},
+        {name: 'gree_commands_sent_total', help: 'Cmd requests sent, including retries.', key: 'commandsSent'},
+        {name: 'gree_commands_acknowledged_total', help: 'Cmd requests acknowledged.', key: 'commandsAcknowledged'},
+        {name: 'gree_bind_attempts_total', help: 'Bind requests sent.', key: 'bindAttempts'},
+        {name: 'gree_unavailable_transitions_total', help: 'Times the device became unavailable.', key: 'unavailableTransitions'},
+    ];
+
+
+    /**
+     * @param devices The devices.
+     * @returns The metrics of the devices, in the Prometheus text format.
+     */
+    public static render(devices: GreeAirConditionerDevice[]): string {
+        const lines: string[] = [];
+
+        Metrics.gauges.forEach(gauge => {
+            lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`);
+            devices.forEach(device => {
+                const value: number | undefined = device.getDeviceStatus()[gauge.column];
+
+                if (value !== undefined) {
+                    lines.push(`${gauge.name}${Metrics.labels(device)} ${value + gauge.offset}`);
+                }
+            });
+        });
+
+        Metrics.counters.forEach(counter => {
+            lines.push(`# HELP ${counter.name} ${counter.help}`, `# TYPE ${counter.name} counter`);
+            devices.forEach(device => lines.push(`${counter.name}${Metrics.labels(device)} ${device.getMetrics()[counter.key]}`));
+        });
+
+        lines.push(
+            '# HELP gree_status_latency_seconds Round-trip latency from a status request to the next dat response.',
+            '# TYPE gree_status_latency_seconds histogram',
+        );
+        devices.forEach(device => {
+            const histogram: HistogramData = device.getMetrics().statusLatency;
+            let cumulative = 0;
+
+            histogram.buckets.forEach((bound: number, i: number) => {
+                cumulative += histogram.counts[i];
+                lines.push(`gree_status_latency_seconds_bucket${Metrics.labels(device, {le: `${bound}`})} ${cumulative}`);
+            });
+            lines.push(
+                `gree_status_latency_seconds_bucket${Metrics.labels(device, {le: '+Inf'})} ${histogram.count}`,
+                `gree_status_latency_seconds_sum${Metrics.labels(device)} ${histogram.sum}`,
+                `gree_status_latency_seconds_count${Metrics.labels(device)} ${histogram.count}`,
+            );
+        });
+
+        return lines.join('\n') + '\n';
+    }
+
+
+    /**
+     * Formats the labels of a sample of a device.
+     *
+     * @param device The device.
+     * @param extra Labels of the sample other than the MAC and the name.
+     * @private
+     */
+    private static labels(device: GreeAirConditionerDevice, extra: Record<string, string> = {}): string {
+        const labels: Record<string, string> = {mac: device.getDeviceContext().mac, name: device.getDeviceContext().name, ...extra};
+
+        return '{' + Object.keys(labels)
+            .map(label => `${label}="${labels[label].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+            .join(',') + '}';
+    }
+
+}
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import {Status} from './status';
+
+describe('Status', () => {
+
+    it('decodes the columns with the names of the commands and their values', () => {
+        assert.deepStrictEqual(
+            Status.decode({Pow: 1, Mod: 4, SetTem: 24, WdSpd: 0}),
+            {power: 'on', mode: 'heat', targetTemperature: 24, speed: 'auto'},
+        );
+    });
+
+    it('decodes the temperatures in degrees Celsius', () => {
+        assert.deepStrictEqual(
+            Status.decode({TemSen: 65, OutEnvTem: 32}),
+            {temperatureSensor: 25, outdoorTemperature: -8},
+        );
+    });
+
+    it('keeps the values which have no name', () => {
+        assert.deepStrictEqual(Status.decode({Mod: <Mod>7}), {mode: 7});
+    });
+
+    it('encodes names, numbers and booleans', () => {
+        assert.deepStrictEqual(
+            Status.encode({power: true, mode: 'cool', speed: 2, targetTemperature: '24'}),
+            {Pow: 1, Mod: 1, WdSpd: 2, SetTem: 24},
+        );
+    });
+
+    it('rejects unknown commands, read-only commands and invalid values', () => {
+        assert.throws(() => Status.encode({foo: 1}), /Unknown command foo/);
+        assert.throws(() => Status.encode({toString: 1}), /Unknown command/);
+        assert.throws(() => Status.encode({temperatureSensor: 20}), /cannot be set/);
+        assert.throws(() => Status.encode({mode: 'warm'}), /expected one of auto, cool, dry, fan, heat/);
+        assert.throws(() => Status.encode({mode: true}), /Invalid value/);
+        assert.throws(() => Status.encode({targetTemperature: 15}), /between 16 and 30/);
+        assert.throws(() => Status.encode({targetTemperature: 'warm'}), /Invalid value/);
+    });
+});
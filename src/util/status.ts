@@ -0,0 +1,127 @@
+import {GreeAirConditionerCommands} from '../gree/GreeAirConditionerCommands';
+
+/**
+ * Converts a {@link DeviceStatus} to and from the friendly names of {@link GreeAirConditionerCommands}, e.g.
+ * <i>Mod: 1</i> is <i>mode: 'cool'</i>. Used by the tooling and the integrations which do not go through HomeKit.
+ */
+export class Status {
+
+    /**
+     * Commands which are reported by the devices but cannot be set.
+     */
+    public static readonly readOnly: string[] = ['temperatureSensor', 'heatCoolType', 'outdoorTemperature'];
+
+    /**
+     * Range of the commands which have no named values.
+     */
+    public static readonly ranges: Record<string, { min: number; max: number }> = {
+        //@formatter:off
+        targetTemperature: {min: 16, max: 30},
+        temperatureOffset: {min: 0, max: 1},
+        //@formatter:on
+    };
+
+    /**
+     * Offsets of the commands whose values are not reported as they are: the temperatures are reported with an offset
+     * of 40 to prevent working with negative numbers.
+     */
+    public static readonly offsets: Record<string, number> = {
+        //@formatter:off
+        temperatureSensor:  40,
+        outdoorTemperature: 40,
+        //@formatter:on
+    };
+
+
+    /**
+     * Decodes a status: every known column is reported under the name of its command, with the name of its value if
+     * the command has named values (e.g. <i>{Pow: 1, SetTem: 24}</i> is <i>{power: 'on', targetTemperature: 24}</i>).
+     * The {@link offsets} are removed, so the temperatures are in degrees Celsius.
+     *
+     * @param status The status to be decoded.
+     * @returns The decoded status.
+     */
+    public static decode(status: Partial<DeviceStatus>): Record<string, string | number> {
+        const decoded: Record<string, string | number> = {};
+
+        Object.keys(GreeAirConditionerCommands).forEach((name: string) => {
+            const command = GreeAirConditionerCommands[name];
+            const value: number | undefined = status[command.code];
+
+            if (value === undefined) {
+                return;
+            }
+            decoded[name] = command.value
+                ? Object.keys(command.value).find(k => command.value[k] === value) ?? value
+                : value - (Status.offsets[name] || 0);
+        });
+        return decoded;
+    }
+
+    /**
+     * Encodes and validates a state given with the names of the commands. The values of the commands with named values
+     * can be given by name, by number, or as booleans for the commands which can be turned on and off. The values of
+     * the other commands can be given as numbers or numeric strings.
+     *
+     * @param state The state to be encoded.
+     * @returns The state as columns and values to be sent to the device.
+     * @throws Error if a command is unknown or read-only, or if a value is not valid.
+     */
+    public static encode(state: Record<string, unknown>): Partial<DeviceStatus> {
+        const encoded: Partial<DeviceStatus> = {};
+
+        Object.keys(state).forEach((name: string) => {
+            const command = GreeAirConditionerCommands[name];
+            const value: unknown = state[name];
+
+            if (!Object.prototype.hasOwnProperty.call(GreeAirConditionerCommands, name)) {
+                throw new Error(`Unknown command ${name}`);
+            }
+            if (Status.readOnly.includes(name)) {
+                throw new Error(`${name} cannot be set`);
+            }
+
+            encoded[command.code] = command.value
+                ? Status.encodeNamedValue(name, command.value, value)
+                : Status.encodeNumber(name, value);
+        });
+        return encoded;
+    }
+
+
+    /**
+     * Encodes the value of a command with named values.
+     *
+     * @private
+     */
+    private static encodeNamedValue(name: string, values: Record<string, number>, value: unknown): number {
+        if (typeof value === 'boolean' && 'on' in values && 'off' in values) {
+            return value ? values.on : values.off;
+        }
+        if (typeof value === 'string' && Object.prototype.hasOwnProperty.call(values, value)) {
+            return values[value];
+        }
+        if (typeof value === 'number' && Object.values(values).includes(value)) {
+            return value;
+        }
+        throw new Error(`Invalid value ${JSON.stringify(value)} for ${name}, expected one of ${Object.keys(values).join(', ')}`);
+    }
+
+    /**
+     * Encodes the value of a command without named values, checking its {@link ranges range} if it has one.
+     *
+     * @private
+     */
+    private static encodeNumber(name: string, value: unknown): number {
+        const number: number = typeof value === 'string' && value.trim() !== '' ? Number(value) : <number>value;
+        const range: { min: number; max: number } | undefined = Status.ranges[name];
+
+        if (typeof number !== 'number' || !Number.isInteger(number) ||
+            (range && (number < range.min || number > range.max))) {
+            throw new Error(`Invalid value ${JSON.stringify(value)} for ${name}` +
+                (range ? `, expected an integer between ${range.min} and ${range.max}` : ', expected an integer'));
+        }
+        return number;
+    }
+
+}
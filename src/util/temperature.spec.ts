@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import {Temperature} from './temperature';
+
+describe('Temperature', () => {
+
+    it('converts between Celsius and Fahrenheit', () => {
+        assert.strictEqual(Temperature.celsiusToFahrenheit(25), 77);
+        assert.strictEqual(Temperature.fahrenheitToCelsius(77), 25);
+    });
+
+    it('converts Fahrenheit to the target temperature and the half degree bit', () => {
+        assert.deepStrictEqual(Temperature.fahrenheitToGree(72), {SetTem: 22, TemRec: 1});
+        assert.deepStrictEqual(Temperature.fahrenheitToGree(73), {SetTem: 23, TemRec: 0});
+        assert.deepStrictEqual(Temperature.fahrenheitToGree(77), {SetTem: 25, TemRec: 1});
+    });
+
+    it('ignores the half degree bit for whole Celsius degrees', () => {
+        assert.strictEqual(Temperature.greeToFahrenheit(25, 0), 77);
+        assert.strictEqual(Temperature.greeToFahrenheit(25, 1), 77);
+    });
+
+    it('converts every Fahrenheit degree supported by the devices back and forth', () => {
+        for (let fahrenheit = Temperature.min.fahrenheit; fahrenheit <= Temperature.max.fahrenheit; fahrenheit++) {
+            const {SetTem, TemRec} = Temperature.fahrenheitToGree(fahrenheit);
+
+            assert.ok(SetTem >= Temperature.min.celsius && SetTem <= Temperature.max.celsius, `${fahrenheit}°F`);
+            assert.strictEqual(Temperature.greeToFahrenheit(SetTem, TemRec), fahrenheit);
+        }
+    });
+});
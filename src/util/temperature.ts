@@ -0,0 +1,64 @@
+/**
+ * Converts temperatures the same way as the Gree remotes and apps. Gree devices always store the target temperature
+ * in Celsius ({@link GreeAirConditionerCommands.targetTemperature SetTem}); in Fahrenheit, the whole degree is extended
+ * with a half degree bit ({@link GreeAirConditionerCommands.temperatureOffset TemRec}), so every Fahrenheit degree
+ * maps to its own pair of values.
+ */
+export class Temperature {
+
+    /**
+     * Minimum target temperature supported by the devices, in Celsius and Fahrenheit.
+     */
+    public static readonly min = {celsius: 16, fahrenheit: 61};
+
+    /**
+     * Maximum target temperature supported by the devices, in Celsius and Fahrenheit.
+     */
+    public static readonly max = {celsius: 30, fahrenheit: 86};
+
+    /**
+     * @param celsius Temperature in Celsius.
+     * @returns The temperature in Fahrenheit.
+     */
+    public static celsiusToFahrenheit(celsius: number): number {
+        return celsius * 9 / 5 + 32;
+    }
+
+    /**
+     * @param fahrenheit Temperature in Fahrenheit.
+     * @returns The temperature in Celsius.
+     */
+    public static fahrenheitToCelsius(fahrenheit: number): number {
+        return (fahrenheit - 32) * 5 / 9;
+    }
+
+    /**
+     * Converts a Fahrenheit target temperature to the values sent to the device (see <i>Sending the target temperature
+     * in Fahrenheit</i> in README.md).
+     *
+     * @param fahrenheit Target temperature in Fahrenheit (rounded to a whole degree).
+     * @returns The target temperature in whole Celsius degrees and the half degree bit.
+     */
+    public static fahrenheitToGree(fahrenheit: number): { SetTem: number; TemRec: number } {
+        const celsius: number = Temperature.fahrenheitToCelsius(Math.round(fahrenheit));
+        const setTem: number = Math.round(celsius);
+
+        return {SetTem: setTem, TemRec: celsius < setTem ? 0 : 1};
+    }
+
+    /**
+     * Converts the values reported by the device to a Fahrenheit target temperature. It is the inverse of
+     * {@link fahrenheitToGree} (see <i>Reading the target temperature in Fahrenheit</i> in README.md). The half degree
+     * bit is ignored for the Fahrenheit degrees which are whole Celsius degrees as well (68°F, 77°F and 86°F).
+     *
+     * @param setTem Target temperature in whole Celsius degrees.
+     * @param temRec Half degree bit.
+     * @returns The target temperature in whole Fahrenheit degrees.
+     */
+    public static greeToFahrenheit(setTem: number, temRec: number): number {
+        const fahrenheit: number = Math.round(Temperature.celsiusToFahrenheit(setTem) * 10) / 10;
+
+        return Number.isInteger(fahrenheit) ? fahrenheit : Math.floor(fahrenheit) + (temRec ? 1 : 0);
+    }
+
+}